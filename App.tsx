@@ -2,7 +2,7 @@ import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react'
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 import { 
   Cloud, Camera, AlertCircle, Loader2, FileCheck, ArrowLeft, 
-  Wallet, TrendingUp, Users, RefreshCcw, Zap, PackagePlus, 
+  Wallet, TrendingUp, Users, RefreshCcw, RotateCcw, Zap, PackagePlus, 
   ArrowUpRight, ArrowDownLeft, MoreHorizontal, Calendar, ChevronDown,
   Search, Filter, Download, CheckCircle2, XCircle, Clock,
   AlertTriangle, PackageX, ShoppingBag, Package, ArrowRight,
@@ -14,18 +14,30 @@ import {
   BarChart3, PieChart as PieChartIcon, LineChart, TrendingDown, CalendarRange,
   Activity, Store, Upload, Lock, Eye, EyeOff, ShieldCheck, UserPlus, LogIn,
   Sliders, Shield, Database, FileJson, Key, Bell, List, Plus, MessageCircle, AlertOctagon,
-  MinusCircle, PlusCircle, Globe, Mail, FilePlus, Building2, Briefcase
+  MinusCircle, PlusCircle, Globe, Mail, FilePlus, Building2, Briefcase, Truck, Repeat, Target, Tags
 } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend, BarChart, Bar } from 'recharts';
 import { SilkBackground } from './components/SilkBackground';
 import { utils, writeFile } from 'xlsx';
+import { createWorker as createOcrWorker } from 'tesseract.js';
 
 // --- Types ---
-type Tab = 'dashboard' | 'transactions' | 'debts' | 'inventory' | 'reports' | 'settings';
-type SettingsTab = 'store' | 'companies' | 'security' | 'data';
+type Tab = 'dashboard' | 'pos' | 'transactions' | 'debts' | 'customers' | 'inventory' | 'reports' | 'settings';
+type SettingsTab = 'store' | 'rates' | 'users' | 'security' | 'data' | 'imports' | 'reminders' | 'recurring' | 'categories';
 type TransactionStatus = 'completed' | 'pending' | 'failed';
-type TransactionType = 'sale' | 'expense' | 'refund' | 'debt' | 'cash';
+type TransactionType = 'sale' | 'expense' | 'refund' | 'debt' | 'cash' | 'payment';
 type SortOption = 'newest' | 'oldest' | 'highest' | 'lowest';
+type UserRole = 'owner' | 'manager' | 'cashier';
+type Permission = 'clearData' | 'deleteTransactions' | 'editTransactions' | 'manageInventory' | 'settleDebts' | 'viewReports' | 'manageSettings' | 'manageUsers' | 'issueRefunds' | 'importTransactions';
+type Currency = 'USD' | 'IQD';
+type ReportingCurrency = Currency | 'mixed'; // 'mixed' shows each currency on its own, unconverted
+type MovementReason = 'sale' | 'purchase' | 'adjustment' | 'damage' | 'return' | 'stocktake';
+type CatalogueField = 'name' | 'category' | 'quantity' | 'minLevel' | 'price' | 'cost' | 'sku' | 'barcode';
+type ImportField = 'name' | 'amount' | 'date' | 'type' | 'currency' | 'phone' | 'item' | 'sku' | 'category';
+type BarcodeScanTarget = 'pos' | 'inventory' | 'itemForm' | 'manualForm';
+type ReceiptLayout = 'a4' | '80mm' | '58mm';
+type ReminderChannel = 'whatsapp' | 'sms' | 'copy';
+type ColumnMapping = Partial<Record<ImportField, number>>;
 
 interface InventoryItem {
   id: string;
@@ -35,6 +47,8 @@ interface InventoryItem {
   minLevel: number;
   price: number;
   cost: number;
+  sku?: string;
+  barcode?: string;
 }
 
 interface Transaction {
@@ -42,14 +56,75 @@ interface Transaction {
   type: TransactionType;
   client: string; 
   clientPhone?: string; 
+  customerId?: string;
   itemId?: string; 
   date: string;
   time: string;
   amount: number;
-  currency: 'USD' | 'IQD';
+  currency: Currency;
   status: TransactionStatus;
   method: string;
   rawText?: string; 
+  importBatchId?: string;
+  fingerprint?: string; // content hash of the source spreadsheet row, used to detect re-imports
+  paidAmount?: number; // debts: running total of payments applied so far
+  installmentPlan?: InstallmentPlan; // debts: optional repayment schedule
+  dueDate?: string; // debts: when the balance is due (from payment terms); undefined means no agreed date
+  allocations?: PaymentAllocation[]; // payments: which debts this payment was applied to
+  purchaseLines?: PurchaseLine[]; // supplier purchases: goods received with this expense
+  saleLines?: SaleLine[]; // POS sales: one entry per cart line
+  orderDiscount?: number;
+  itemCost?: number; // single-item sales: USD cost of `itemId` when sold
+  recurringId?: string; // generated from this recurring template
+  category?: string; // expenses: ExpenseCategory id (older records may hold a category name)
+  refundOf?: string; // refunds: id of the sale being refunded (returned goods are listed in saleLines)
+  restocked?: boolean; // refunds: the returned goods went back into stock
+  invoiceNumber?: number; // assigned the first time an invoice or receipt is issued
+}
+
+interface StockMovement {
+  id: string;
+  itemId: string;
+  itemName: string;
+  change: number; // signed quantity delta
+  quantityAfter: number;
+  reason: MovementReason;
+  transactionId?: string;
+  userId: string;
+  userName: string;
+  timestamp: string;
+  note?: string;
+}
+
+interface SaleLine {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number; // in the transaction's currency
+  discount: number; // whole-line discount, in the transaction's currency
+  unitCost?: number; // USD cost per unit when sold
+}
+
+interface PurchaseLine {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unitCost: number; // in the transaction's currency
+}
+
+interface Installment {
+  dueDate: string;
+  amount: number;
+}
+
+interface InstallmentPlan {
+  startPaid: number; // the debt's paidAmount when the plan was created; installments cover what remained
+  installments: Installment[];
+}
+
+interface PaymentAllocation {
+  debtId: string;
+  amount: number;
 }
 
 interface StoreProfile {
@@ -58,23 +133,175 @@ interface StoreProfile {
   address: string;
   logo: string; 
   currencySymbol: string;
-  knownCompanies: string[];
+  knownCompanies?: string[]; // legacy free-text list, migrated into the customers store on load
+}
+
+interface ReminderTemplate {
+  id: string;
+  name: string;
+  body: string; // may contain {name}, {balance}, {oldest_date} and {store}
+}
+
+// One reminder sent to a debtor, kept as a contact log
+interface DebtReminder {
+  id: string;
+  clientKey: string; // see getClientKey
+  customerId?: string;
+  clientName: string;
+  phone: string;
+  channel: ReminderChannel;
+  message: string;
+  sentAt: string;
+  userId: string;
+  userName: string;
+}
+
+type RecurrenceCadence = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+// Rent, salaries, subscriptions: a transaction that repeats on a schedule
+interface RecurringTemplate {
+  id: string;
+  name: string; // becomes the generated transaction's client / description
+  type: 'expense' | 'sale';
+  amount: number;
+  currency: Currency;
+  category: string; // ExpenseCategory id, expenses only
+  cadence: RecurrenceCadence;
+  intervalDays?: number; // custom cadence only
+  startDate: string; // monthly occurrences keep this day of the month
+  endDate?: string;
+  nextDate: string; // earliest occurrence not yet posted or skipped
+  skipDates: string[]; // occurrences the user chose not to post
+  autoPost: boolean; // false: due occurrences wait for confirmation
+  active: boolean;
+  createdAt: string;
+}
+
+interface ExpenseCategory {
+  id: string;
+  name: string;
+  keywords: string[]; // matched against descriptions to categorise imported and scanned expenses
+  monthlyBudget: number; // 0 means no budget
+  budgetCurrency: Currency;
+}
+
+interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  address: string;
+  notes: string;
+  creditLimit: number; // 0 means no limit
+  creditCurrency: Currency;
+  paymentTermsDays?: number; // default credit terms for new debts, e.g. 30 for net 30
+  isSupplier?: boolean;
+  createdAt: string;
+}
+
+interface ImportProfile {
+  id: string;
+  name: string;
+  headerSignature: string; // normalized header row, used to auto-pick the profile for matching files
+  headerRowIndex: number;
+  mapping: ColumnMapping;
+}
+
+interface ImportWizardState {
+  fileName: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rows: any[][];
+  headerRowIndex: number;
+  mapping: ColumnMapping;
+  profileId: string;
+  duplicateMode: 'skip' | 'overwrite';
+}
+
+interface CatalogueImportPlan {
+  fileName: string;
+  creates: InventoryItem[];
+  updates: { before: InventoryItem; after: InventoryItem }[];
+  skipped: number;
+}
+
+interface ImportBatch {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  rowCount: number;
+  skippedCount: number;
+  fingerprints: string[];
+}
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  stores: Record<string, { id: string }[]>;
+  settings: Record<string, string | null>;
+}
+
+interface RestorePlan {
+  fileName: string;
+  backup: BackupFile;
+  summary: { store: string; incoming: number; existing: number; overlapping: number }[];
+}
+
+interface StoredUser {
+  id: string;
+  role: UserRole;
+  fullName: string;
+  email: string;
+  phone: string;
+  countryCode: string;
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+  wrappedKey?: string; // data key encrypted with this user's password (encryption at rest)
+  keySalt?: string;
+  sessionHash?: string; // SHA-256 of the token issued at the last login; the token itself is only in session storage
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type DbRecord = { id: string } & Record<string, any>;
+
+interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
+// A total kept in original currencies; `converted` is the same total expressed in each currency,
+// converting every transaction at the rate in force on its own date
+interface MoneyTotals {
+  native: Record<Currency, number>;
+  converted: Record<Currency, number>;
 }
 
 interface DashboardStats {
-  totalSalesUSD: number;
-  totalSalesIQD: number;
-  netProfit: number;
-  totalDebt: number;
-  totalExpenses: number; 
+  totalSales: MoneyTotals;
+  netProfit: MoneyTotals;
+  totalDebt: MoneyTotals;
+  totalExpenses: MoneyTotals;
   count: number;
   weeklyData: { dayIndex: number; total: number }[];
 }
 
+interface ProductMargin {
+    name: string;
+    revenue: number; // chart currency
+    cost: number; // chart currency
+    profit: number;
+    margin: number; // percent of revenue
+    count: number;
+}
+
 interface ReportStats {
-    totalRevenue: number;
-    totalExpenses: number;
-    netProfit: number;
+    totalRevenue: MoneyTotals;
+    totalExpenses: MoneyTotals;
+    operatingExpenses: MoneyTotals; // expenses other than stock purchases, which reach profit as COGS instead
+    cogs: MoneyTotals;
+    grossProfit: MoneyTotals;
+    netProfit: MoneyTotals;
     collectionRate: number;
     atv: number;
     topProducts: { name: string; amount: number; count: number }[];
@@ -85,17 +312,64 @@ interface ReportStats {
     composition: { cash: number; debt: number; expense: number };
     chartData: { date: string; revenue: number; expenses: number }[];
     pieData: { name: string; value: number }[];
-    topDebtors: { name: string; amount: number }[];
+    productMargins: ProductMargin[];
+    categoryMargins: ProductMargin[];
+    topDebtors: { name: string; amount: MoneyTotals }[];
+    ratesUsed: { effectiveDate: string; rate: number; count: number }[];
+}
+
+interface ExchangeRate {
+  id: string;
+  effectiveDate: string; // applies to transactions dated on or after this day, until the next rate
+  rate: number; // IQD per 1 USD
 }
 
 // --- Constants ---
-const EXCHANGE_RATE = 1520; 
+const DEFAULT_EXCHANGE_RATE = 1520; 
+const CURRENCIES: Currency[] = ['IQD', 'USD'];
+const REPORTING_CURRENCY_LABELS: Record<ReportingCurrency, string> = { mixed: 'كل عملة على حدة', IQD: 'محوّل إلى الدينار', USD: 'محوّل إلى الدولار' };
 const WEEK_DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 const WEEK_DAYS_FULL = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 const DB_NAME = 'SariDB';
 const STORE_NAME = 'transactions';
 const INVENTORY_STORE = 'inventory';
-const DB_VERSION = 2; 
+const IMPORT_BATCH_STORE = 'importBatches';
+const CUSTOMER_STORE = 'customers';
+const MOVEMENT_STORE = 'stockMovements';
+const REMINDER_STORE = 'reminders';
+const RECURRING_STORE = 'recurring';
+const DB_VERSION = 7; 
+const USERS_KEY = 'SARI_USERS';
+const LEGACY_USER_KEY = 'SARI_USER_DATA';
+const SESSION_KEY = 'sari_auth_token';
+const PBKDF2_ITERATIONS = 210000;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // browser session, "remember me" unchecked
+const REMEMBER_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ['clearData', 'deleteTransactions', 'editTransactions', 'manageInventory', 'settleDebts', 'viewReports', 'manageSettings', 'manageUsers', 'issueRefunds', 'importTransactions'],
+  manager: ['deleteTransactions', 'editTransactions', 'manageInventory', 'settleDebts', 'viewReports', 'issueRefunds', 'importTransactions'],
+  cashier: []
+};
+const ROLE_LABELS: Record<UserRole, string> = { owner: 'مالك', manager: 'مدير', cashier: 'كاشير' };
+const BACKUP_FORMAT = 'sari-backup';
+const BACKUP_VERSION = 5;
+const DATA_STORES = [STORE_NAME, INVENTORY_STORE, IMPORT_BATCH_STORE, CUSTOMER_STORE, MOVEMENT_STORE, REMINDER_STORE, RECURRING_STORE];
+// Backup version that first included each store. Adding a store bumps BACKUP_VERSION and adds its entry here;
+// backups from before a store existed restore it as empty.
+const BACKUP_STORE_SINCE: Record<string, number> = {
+  [STORE_NAME]: 1, [INVENTORY_STORE]: 1, [IMPORT_BATCH_STORE]: 1,
+  [CUSTOMER_STORE]: 2, // customer directory
+  [MOVEMENT_STORE]: 3, // stock ledger
+  [REMINDER_STORE]: 4, // debt reminder log
+  [RECURRING_STORE]: 5 // recurring templates
+};
+// Fields kept in clear text on encrypted records so the IndexedDB indexes keep working
+const INDEXED_FIELDS: Record<string, string[]> = { [STORE_NAME]: ['date', 'type'] };
+const ENCRYPTION_FLAG_KEY = 'sari_encryption';
+const CUSTOMER_LINK_FLAG_KEY = 'sari_customers_linked'; // set once existing transactions have been linked to the directory
+const BACKUP_SETTINGS_KEYS = ['sari_store_info', 'sari_items_per_page', 'sari_inventory_alerts', 'sari_import_profiles', 'sari_exchange_rates', 'sari_reporting_currency', 'sari_invoice_counter', 'sari_receipt_layout', 'sari_reminder_templates', 'sari_expense_categories'];
+const BACKUP_STORE_LABELS: Record<string, string> = { [STORE_NAME]: 'العمليات', [INVENTORY_STORE]: 'المخزن', [IMPORT_BATCH_STORE]: 'سجل الاستيراد', [CUSTOMER_STORE]: 'العملاء', [MOVEMENT_STORE]: 'حركات المخزون', [REMINDER_STORE]: 'سجل التذكيرات', [RECURRING_STORE]: 'العمليات المتكررة' };
+const MOVEMENT_REASON_LABELS: Record<MovementReason, string> = { sale: 'بيع', purchase: 'شراء', adjustment: 'تعديل', damage: 'تالف', return: 'مرتجع', stocktake: 'جرد' };
 
 // --- Worker Code ---
 const WORKER_CODE = `
@@ -131,6 +405,21 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(INVENTORY_STORE)) {
         db.createObjectStore(INVENTORY_STORE, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(IMPORT_BATCH_STORE)) {
+        db.createObjectStore(IMPORT_BATCH_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CUSTOMER_STORE)) {
+        db.createObjectStore(CUSTOMER_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MOVEMENT_STORE)) {
+        db.createObjectStore(MOVEMENT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(REMINDER_STORE)) {
+        db.createObjectStore(REMINDER_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(RECURRING_STORE)) {
+        db.createObjectStore(RECURRING_STORE, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -138,38 +427,312 @@ const openDB = (): Promise<IDBDatabase> => {
 const clearStore = async (): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const t = db.transaction([STORE_NAME, INVENTORY_STORE], 'readwrite');
-    t.objectStore(STORE_NAME).clear();
-    t.objectStore(INVENTORY_STORE).clear();
+    const t = db.transaction(DATA_STORES, 'readwrite');
+    DATA_STORES.forEach(name => t.objectStore(name).clear());
     t.oncomplete = () => resolve();
     t.onerror = () => reject(t.error);
   });
 };
 
-const bulkAddTransactions = async (items: Transaction[]): Promise<void> => {
+// Updates several transactions in one IDB transaction: either all of them are saved or none are
+const saveTransactions = async (txs: Transaction[]): Promise<void> => {
+  const records = await encryptRecords(STORE_NAME, txs);
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    items.forEach(item => store.put(item));
-    transaction.oncomplete = () => resolve();
-    transaction.onerror = () => reject(transaction.error);
+    const t = db.transaction([STORE_NAME], 'readwrite');
+    records.forEach(tx => t.objectStore(STORE_NAME).put(tx));
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+  });
+};
+
+// Writes newly created customers and the transactions linked to them atomically (and drops merged-away customers)
+const saveCustomerLinks = async (customers: Customer[], items: Transaction[], deleteCustomerIds: string[] = []): Promise<void> => {
+  const customerRecords = await encryptRecords(CUSTOMER_STORE, customers);
+  const records = await encryptRecords(STORE_NAME, items);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([STORE_NAME, CUSTOMER_STORE], 'readwrite');
+    customerRecords.forEach(c => t.objectStore(CUSTOMER_STORE).put(c));
+    deleteCustomerIds.forEach(id => t.objectStore(CUSTOMER_STORE).delete(id));
+    records.forEach(item => t.objectStore(STORE_NAME).put(item));
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+  });
+};
+
+// Writes transactions together with the stock changes they cause and the matching movement entries,
+// so the ledger can never disagree with the item quantities
+const saveStockTransaction = async (txs: Transaction[], items: InventoryItem[], movements: StockMovement[], deleteTxIds: string[] = []): Promise<void> => {
+  const txRecords = await encryptRecords(STORE_NAME, txs);
+  const itemRecords = await encryptRecords(INVENTORY_STORE, items);
+  const movementRecords = await encryptRecords(MOVEMENT_STORE, movements);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([STORE_NAME, INVENTORY_STORE, MOVEMENT_STORE], 'readwrite');
+    txRecords.forEach(tx => t.objectStore(STORE_NAME).put(tx));
+    deleteTxIds.forEach(id => t.objectStore(STORE_NAME).delete(id));
+    itemRecords.forEach(item => t.objectStore(INVENTORY_STORE).put(item));
+    movementRecords.forEach(m => t.objectStore(MOVEMENT_STORE).put(m));
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+  });
+};
+
+// Writes an import batch, its transactions and the customers they introduced atomically. New rows are added (an id collision aborts the import);
+// only rows that deliberately overwrite an earlier import replace an existing record.
+const saveImportBatch = async (batch: ImportBatch, added: Transaction[], replaced: Transaction[] = [], customers: Customer[] = []): Promise<void> => {
+  const customerRecords = await encryptRecords(CUSTOMER_STORE, customers);
+  const addedRecords = await encryptRecords(STORE_NAME, added);
+  const replacedRecords = await encryptRecords(STORE_NAME, replaced);
+  const batchRecord = await encryptRecord(IMPORT_BATCH_STORE, batch);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([STORE_NAME, IMPORT_BATCH_STORE, CUSTOMER_STORE], 'readwrite');
+    customerRecords.forEach(c => t.objectStore(CUSTOMER_STORE).put(c));
+    const store = t.objectStore(STORE_NAME);
+    addedRecords.forEach(item => store.add(item));
+    replacedRecords.forEach(item => store.put(item));
+    t.objectStore(IMPORT_BATCH_STORE).put(batchRecord);
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+  });
+};
+
+// Writes generated recurring occurrences together with the templates whose cursor moved past them
+const saveRecurringRun = async (posted: Transaction[], templates: RecurringTemplate[]): Promise<void> => {
+  const txRecords = await encryptRecords(STORE_NAME, posted);
+  const templateRecords = await encryptRecords(RECURRING_STORE, templates);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([STORE_NAME, RECURRING_STORE], 'readwrite');
+    txRecords.forEach(tx => t.objectStore(STORE_NAME).put(tx));
+    templateRecords.forEach(tpl => t.objectStore(RECURRING_STORE).put(tpl));
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+  });
+};
+
+// Removes a batch record together with every transaction still attributed to it
+const rollbackImportBatch = async (batchId: string, transactionIds: string[]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([STORE_NAME, IMPORT_BATCH_STORE], 'readwrite');
+    const store = t.objectStore(STORE_NAME);
+    transactionIds.forEach(id => store.delete(id));
+    t.objectStore(IMPORT_BATCH_STORE).delete(batchId);
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
   });
 };
 
 const dbOp = async <T,>(storeName: string, op: 'put' | 'delete' | 'getAll', item?: T | string): Promise<any> => {
+    // Crypto is async, so records are encrypted before the IDB transaction opens (it would auto-commit otherwise)
+    const payload = op === 'put' ? await encryptRecord(storeName, item as DbRecord) : item;
     const db = await openDB();
-    return new Promise((resolve, reject) => {
+    const result = await new Promise((resolve, reject) => {
         const t = db.transaction([storeName], op === 'getAll' ? 'readonly' : 'readwrite');
         const store = t.objectStore(storeName);
-        let req;
+        let req: IDBRequest;
         if (op === 'getAll') req = store.getAll();
-        else if (op === 'delete') req = store.delete(item as string);
-        else req = store.put(item);
+        else if (op === 'delete') req = store.delete(payload as string);
+        else req = store.put(payload);
         
         req.onsuccess = () => resolve(req.result);
         req.onerror = () => reject(req.error);
     });
+    return op === 'getAll' ? decryptRecords(result as DbRecord[]) : result;
+};
+
+// --- Auth Utilities ---
+const bytesToHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const hexToBytes = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+
+const hashPassword = async (password: string, saltHex: string, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: hexToBytes(saltHex), iterations }, key, 256);
+  return bytesToHex(new Uint8Array(bits));
+};
+
+const createPasswordRecord = async (password: string) => {
+  const salt = bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { passwordHash: await hashPassword(password, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+};
+
+const constantTimeEqual = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+const verifyPassword = async (password: string, record: Pick<StoredUser, 'passwordHash' | 'salt' | 'iterations'>) =>
+  constantTimeEqual(await hashPassword(password, record.salt, record.iterations), record.passwordHash);
+
+const hashToken = async (token: string) => bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))));
+
+const hasPermission = (user: StoredUser | null, permission: Permission) => !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+
+const saveUsers = (users: StoredUser[]) => localStorage.setItem(USERS_KEY, JSON.stringify(users));
+
+const readUsers = (): StoredUser[] => {
+  try {
+    const users = JSON.parse(localStorage.getItem(USERS_KEY) || 'null');
+    if (Array.isArray(users)) return users;
+    // Single-account installs: the existing account becomes the store owner
+    const legacy = JSON.parse(localStorage.getItem(LEGACY_USER_KEY) || 'null');
+    if (!legacy) return [];
+    const { storeName: _storeName, ...account } = legacy;
+    const migrated: StoredUser[] = [{ ...account, id: generateUserId(), role: 'owner' }];
+    saveUsers(migrated);
+    localStorage.removeItem(LEGACY_USER_KEY);
+    return migrated;
+  } catch { return []; }
+};
+
+// Unverified: only good for prefilling the login form
+const peekSessionUserId = () => {
+  try { return (JSON.parse(sessionStorage.getItem(SESSION_KEY) || localStorage.getItem(SESSION_KEY) || 'null') as AuthSession | null)?.userId; } catch { return undefined; }
+};
+
+// A session is only trusted if it has not expired and its token hashes to the one recorded on the account at login
+const readSession = async (): Promise<AuthSession | null> => {
+  const users = readUsers();
+  for (const storage of [sessionStorage, localStorage]) {
+    try {
+      const session: AuthSession | null = JSON.parse(storage.getItem(SESSION_KEY) || 'null');
+      const user = session && users.find(u => u.id === session.userId);
+      if (session && user?.sessionHash && typeof session.token === 'string' && session.expiresAt > Date.now() && constantTimeEqual(await hashToken(session.token), user.sessionHash)) return session;
+    } catch { /* legacy or tampered value */ }
+    storage.removeItem(SESSION_KEY);
+  }
+  return null;
+};
+
+const readSessionUser = async () => {
+  const session = await readSession();
+  return session ? readUsers().find(u => u.id === session.userId) || null : null;
+};
+
+// Returns the saved accounts with the new session hash recorded on the signed-in user
+const writeSession = async (userId: string, remember: boolean) => {
+  const session: AuthSession = {
+    token: bytesToHex(crypto.getRandomValues(new Uint8Array(32))),
+    userId,
+    expiresAt: Date.now() + (remember ? REMEMBER_TTL_MS : SESSION_TTL_MS)
+  };
+  const sessionHash = await hashToken(session.token);
+  const users = readUsers().map(u => u.id === userId ? { ...u, sessionHash } : u);
+  saveUsers(users);
+  (remember ? localStorage : sessionStorage).setItem(SESSION_KEY, JSON.stringify(session));
+  (remember ? sessionStorage : localStorage).removeItem(SESSION_KEY);
+  return users;
+};
+
+const clearSession = () => {
+  const userId = peekSessionUserId();
+  if (userId) saveUsers(readUsers().map(u => u.id === userId ? { ...u, sessionHash: undefined } : u));
+  localStorage.removeItem(SESSION_KEY); sessionStorage.removeItem(SESSION_KEY);
+};
+
+// --- Encryption at Rest ---
+// The data key lives in memory only; it is unwrapped with the user's password at login
+let dataKey: CryptoKey | null = null;
+const setDataKey = (key: CryptoKey | null) => { dataKey = key; };
+const isEncryptionEnabled = () => localStorage.getItem(ENCRYPTION_FLAG_KEY) === 'enabled';
+
+const bytesToBase64 = (bytes: Uint8Array) => { let bin = ''; bytes.forEach(b => { bin += String.fromCharCode(b); }); return btoa(bin); };
+const base64ToBytes = (b64: string) => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+const joinBytes = (iv: Uint8Array, data: ArrayBuffer) => { const out = new Uint8Array(iv.length + data.byteLength); out.set(iv); out.set(new Uint8Array(data), iv.length); return out; };
+
+const deriveWrappingKey = async (password: string, saltHex: string) => {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', hash: 'SHA-256', salt: hexToBytes(saltHex), iterations: PBKDF2_ITERATIONS }, base, { name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+};
+
+const generateDataKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+const wrapDataKey = async (key: CryptoKey, password: string) => {
+  const keySalt = bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.wrapKey('raw', key, await deriveWrappingKey(password, keySalt), { name: 'AES-GCM', iv });
+  return { keySalt, wrappedKey: bytesToBase64(joinBytes(iv, wrapped)) };
+};
+
+const unwrapDataKey = async (user: StoredUser, password: string) => {
+  const bytes = base64ToBytes(user.wrappedKey!);
+  return crypto.subtle.unwrapKey('raw', bytes.slice(12), await deriveWrappingKey(password, user.keySalt!), { name: 'AES-GCM', iv: bytes.slice(0, 12) }, { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+};
+
+// Encrypted shape: { id, ...INDEXED_FIELDS, enc: base64(iv || ciphertext) }
+const encryptRecord = async (storeName: string, record: DbRecord): Promise<DbRecord> => {
+  if (!dataKey) return record;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, new TextEncoder().encode(JSON.stringify(record)));
+  const indexed = Object.fromEntries((INDEXED_FIELDS[storeName] || []).map(f => [f, record[f]]));
+  return { id: record.id, ...indexed, enc: bytesToBase64(joinBytes(iv, data)) };
+};
+
+// Plain records pass through untouched, so a half-migrated store still reads correctly
+const decryptRecord = async (record: DbRecord): Promise<DbRecord> => {
+  if (typeof record.enc !== 'string') return record;
+  if (!dataKey) throw new Error('Encrypted data is locked');
+  const bytes = base64ToBytes(record.enc);
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, dataKey, bytes.slice(12));
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+const encryptRecords = (storeName: string, records: DbRecord[]) => Promise.all(records.map(r => encryptRecord(storeName, r)));
+const decryptRecords = (records: DbRecord[]) => Promise.all(records.map(decryptRecord));
+
+// --- Backup & Restore ---
+const readAllStores = async (storeNames: string[]): Promise<Record<string, DbRecord[]>> => {
+  const db = await openDB();
+  const raw = await new Promise<Record<string, DbRecord[]>>((resolve, reject) => {
+    const t = db.transaction(storeNames, 'readonly');
+    const result: Record<string, DbRecord[]> = {};
+    storeNames.forEach(name => {
+      const req = t.objectStore(name).getAll();
+      req.onsuccess = () => { result[name] = req.result; };
+    });
+    t.oncomplete = () => resolve(result);
+    t.onerror = () => reject(t.error);
+  });
+  const entries = await Promise.all(Object.entries(raw).map(async ([name, records]) => [name, await decryptRecords(records)] as const));
+  return Object.fromEntries(entries);
+};
+
+// Merge upserts by id (backup wins); replace clears each store first. Runs as one IDB transaction.
+// Also used to re-encode every store when encryption is switched on or off.
+const restoreStores = async (stores: BackupFile['stores'], mode: 'merge' | 'replace'): Promise<void> => {
+  const storeNames = DATA_STORES.filter(name => stores[name]);
+  const encoded = Object.fromEntries(await Promise.all(storeNames.map(async name => [name, await encryptRecords(name, stores[name])] as const)));
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => {
+      const store = t.objectStore(name);
+      if (mode === 'replace') store.clear();
+      encoded[name].forEach(record => store.put(record));
+    });
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+  });
+};
+
+const validateBackup = (data: unknown): BackupFile => {
+  const backup = data as BackupFile;
+  if (!backup || typeof backup !== 'object' || backup.format !== BACKUP_FORMAT) throw new Error('الملف ليس نسخة احتياطية من SARI');
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) throw new Error(`إصدار النسخة (${backup.version}) غير مدعوم`);
+  if (!backup.stores || typeof backup.stores !== 'object') throw new Error('النسخة الاحتياطية لا تحتوي على بيانات');
+  for (const [name, records] of Object.entries(backup.stores)) {
+    if (!DATA_STORES.includes(name)) throw new Error(`مخزن غير معروف: ${name}`);
+    if (!Array.isArray(records) || records.some(r => !r || typeof r.id !== 'string')) throw new Error(`بيانات تالفة في ${BACKUP_STORE_LABELS[name] || name}`);
+  }
+  if (backup.settings && typeof backup.settings !== 'object') throw new Error('إعدادات النسخة تالفة');
+  // Older backups predate some stores: restore those as empty so a replace doesn't keep records from the current data
+  const stores = { ...backup.stores };
+  DATA_STORES.forEach(name => { if (!stores[name] && BACKUP_STORE_SINCE[name] > backup.version) stores[name] = []; });
+  return { ...backup, stores, settings: backup.settings || {} };
 };
 
 const createWorker = () => {
@@ -177,16 +740,810 @@ const createWorker = () => {
   return new Worker(URL.createObjectURL(blob));
 };
 
-const formatCurrency = (amount: number, currency: 'USD' | 'IQD') => {
+const formatCurrency = (amount: number, currency: Currency) => {
   if (currency === 'USD') return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
   return new Intl.NumberFormat('ar-IQ', { style: 'decimal' }).format(amount) + ' IQD';
 };
 
-const generateId = () => `TX-${Math.floor(1000 + Math.random() * 9000)}`;
-const generateItemId = () => `ITM-${Math.floor(10000 + Math.random() * 90000)}`;
+// --- Multi-currency Totals ---
+const emptyTotals = (): MoneyTotals => ({ native: { USD: 0, IQD: 0 }, converted: { USD: 0, IQD: 0 } });
+
+// `rate` is IQD per 1 USD on the transaction's date
+const addToTotals = (totals: MoneyTotals, amount: number, currency: Currency, rate: number) => {
+  totals.native[currency] += amount;
+  totals.converted.USD += currency === 'USD' ? amount : amount / rate;
+  totals.converted.IQD += currency === 'IQD' ? amount : amount * rate;
+};
+
+const subtractTotals = (a: MoneyTotals, b: MoneyTotals): MoneyTotals => ({
+  native: { USD: a.native.USD - b.native.USD, IQD: a.native.IQD - b.native.IQD },
+  converted: { USD: a.converted.USD - b.converted.USD, IQD: a.converted.IQD - b.converted.IQD },
+});
+
+const formatTotals = (totals: MoneyTotals, reporting: ReportingCurrency) => {
+  if (reporting !== 'mixed') return formatCurrency(totals.converted[reporting], reporting);
+  const parts = CURRENCIES.filter(c => totals.native[c] !== 0).map(c => formatCurrency(totals.native[c], c));
+  return parts.length ? parts.join(' + ') : formatCurrency(0, 'IQD');
+};
+
+// --- Customers ---
+// "Ahmed" and "ahmed " are the same person
+const normalizeCustomerName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const createCustomer = (name: string, phone = ''): Customer => ({
+  id: generateCustomerId(), name: name.trim().replace(/\s+/g, ' '), phone, address: '', notes: '', creditLimit: 0, creditCurrency: 'IQD', createdAt: new Date().toISOString()
+});
+
+// Groups a client's transactions; unlinked ones fall back to their normalized name
+const getClientKey = (t: Transaction) => t.customerId || `name:${normalizeCustomerName(t.client)}`;
+
+// Links transactions to customers by normalized name. Debts and payments always belong to someone, so unknown
+// names there create a customer; sales only link when the name already matches one (imports often put the product there).
+const linkCustomers = (customers: Customer[], txs: Transaction[], extraNames: string[] = []) => {
+  const byName = new Map(customers.map(c => [normalizeCustomerName(c.name), c]));
+  const created: Customer[] = [];
+  const ensure = (name: string, phone = '') => {
+    const key = normalizeCustomerName(name);
+    if (!key || key === 'imported') return undefined;
+    let customer = byName.get(key);
+    if (!customer) {
+      customer = createCustomer(name, phone);
+      byName.set(key, customer);
+      created.push(customer);
+    } else if (!customer.phone && phone && created.includes(customer)) {
+      customer.phone = phone;
+    }
+    return customer;
+  };
+  extraNames.forEach(n => ensure(n));
+  const linked: Transaction[] = [];
+  txs.forEach(t => {
+    if (t.customerId || t.type === 'expense') return;
+    const customer = t.type === 'debt' || t.type === 'payment' ? ensure(t.client, t.clientPhone) : byName.get(normalizeCustomerName(t.client));
+    if (customer) linked.push({ ...t, customerId: customer.id });
+  });
+  return { created, linked };
+};
+
+// --- Stock Movements ---
+// `item` is the item after the change
+const createMovement = (item: InventoryItem, change: number, reason: MovementReason, user: StoredUser | null, transactionId?: string, note?: string): StockMovement => ({
+  id: generateMovementId(), itemId: item.id, itemName: item.name, change, quantityAfter: item.quantity, reason,
+  userId: user?.id || '', userName: user?.fullName || '', timestamp: new Date().toISOString(),
+  ...(transactionId ? { transactionId } : {}), ...(note ? { note } : {})
+});
+
+// Units each item loses because of a transaction (negative for goods received). Imported rows never moved stock,
+// so they are left out; that keeps edits and deletes from returning stock that was never taken. Failed rows hold no stock either.
+const getStockUsage = (t: Transaction | null | undefined) => {
+  const usage = new Map<string, number>();
+  if (!t || t.importBatchId || t.status === 'failed') return usage;
+  const add = (itemId: string, units: number) => usage.set(itemId, (usage.get(itemId) || 0) + units);
+  if (t.type === 'sale' || t.type === 'debt') {
+    if (t.saleLines?.length) t.saleLines.forEach(l => add(l.itemId, l.quantity));
+    else if (t.itemId) add(t.itemId, 1);
+  } else if (t.type === 'expense' && t.purchaseLines) {
+    t.purchaseLines.forEach(l => add(l.itemId, -l.quantity));
+  } else if (t.type === 'refund' && t.restocked) {
+    t.saleLines?.forEach(l => add(l.itemId, -l.quantity));
+  }
+  return usage;
+};
+
+// Units and USD value each item received from a goods receipt, so editing or deleting it can move the weighted-average cost back
+const getPurchaseValues = (t: Transaction | null | undefined, rates: ExchangeRate[]) => {
+  const values = new Map<string, { quantity: number; value: number }>();
+  if (!t || t.importBatchId || t.status === 'failed' || t.type !== 'expense' || !t.purchaseLines) return values;
+  const rate = getRateForDate(rates, t.date).rate;
+  t.purchaseLines.forEach(l => {
+    const v = values.get(l.itemId) || { quantity: 0, value: 0 };
+    values.set(l.itemId, { quantity: v.quantity + l.quantity, value: v.value + l.quantity * (t.currency === 'USD' ? l.unitCost : l.unitCost / rate) });
+  });
+  return values;
+};
+
+// Lines of a sale or credit sale with their net price (transaction currency) and cost (USD).
+// Records saved before costs were captured fall back to the item's current cost.
+const getSaleCostLines = (t: Transaction, itemsById: Map<string, InventoryItem>) => {
+  if (t.saleLines?.length) {
+    return t.saleLines.map(l => ({ itemId: l.itemId, name: l.name, quantity: l.quantity, net: l.quantity * l.unitPrice - l.discount, cost: l.quantity * (l.unitCost ?? itemsById.get(l.itemId)?.cost ?? 0) }));
+  }
+  const cost = !t.itemId ? 0 : t.itemCost ?? itemsById.get(t.itemId)?.cost ?? 0;
+  return [{ itemId: t.itemId, name: t.client, quantity: 1, net: t.amount, cost }];
+};
+
+const getSaleCost = (t: Transaction, itemsById: Map<string, InventoryItem>) => getSaleCostLines(t, itemsById).reduce((sum, l) => sum + l.cost, 0);
+
+const calculateMargin = (revenue: number, cost: number) => revenue > 0 ? ((revenue - cost) / revenue) * 100 : 0;
+
+// --- Debt Reminders ---
+const DEFAULT_REMINDER_TEMPLATES: ReminderTemplate[] = [
+  { id: 'ar', name: 'عربي', body: 'مرحباً {name}،\nنود تذكيركم بأن الرصيد المستحق عليكم لدى {store} هو {balance}، وأقدم دين بتاريخ {oldest_date}.\nشكراً لتعاملكم معنا.' },
+  { id: 'en', name: 'English', body: 'Hello {name},\nThis is a friendly reminder that your outstanding balance with {store} is {balance}, the oldest debt dating from {oldest_date}.\nThank you.' },
+];
+const REMINDER_PLACEHOLDERS = ['{name}', '{balance}', '{oldest_date}', '{store}'];
+const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = { whatsapp: 'واتساب', sms: 'رسالة SMS', copy: 'نسخ' };
+
+const fillReminderTemplate = (body: string, values: Record<'name' | 'balance' | 'oldest_date' | 'store', string>) =>
+  body.replace(/\{(name|balance|oldest_date|store)\}/g, (_, key: keyof typeof values) => values[key]);
+
+// Local numbers (leading 0) are assumed to be Iraqi
+const toInternationalPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('00')) return digits.slice(2);
+  return digits.startsWith('0') ? `964${digits.slice(1)}` : digits;
+};
+
+const buildReminderLink = (channel: Exclude<ReminderChannel, 'copy'>, phone: string, message: string) => channel === 'whatsapp'
+  ? `https://wa.me/${toInternationalPhone(phone)}?text=${encodeURIComponent(message)}`
+  : `sms:+${toInternationalPhone(phone)}?body=${encodeURIComponent(message)}`;
+
+// --- Invoices & Receipts ---
+const RECEIPT_LAYOUTS: Record<ReceiptLayout, { label: string; widthMm: number }> = {
+  a4: { label: 'A4', widthMm: 210 },
+  '80mm': { label: 'حراري 80 مم', widthMm: 80 },
+  '58mm': { label: 'حراري 58 مم', widthMm: 58 },
+};
+const RECEIPT_TITLES: Partial<Record<TransactionType, string>> = { sale: 'فاتورة بيع', cash: 'إيصال نقدي', debt: 'فاتورة آجلة', payment: 'سند قبض', refund: 'إشعار مرتجع' };
+const formatInvoiceNumber = (n: number) => `INV-${String(n).padStart(6, '0')}`;
+const escapeHtml = (value: unknown) => String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Self-contained RTL document (inline styles only) so the same markup serves the preview, printing and PDF capture
+const buildReceiptHtml = (t: Transaction, store: StoreProfile, layout: ReceiptLayout, clientName: string) => {
+  const thermal = layout !== 'a4';
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, t.currency));
+  const lines = t.saleLines?.length
+    ? t.saleLines.map(l => ({ name: l.name, quantity: l.quantity, unitPrice: l.unitPrice, discount: l.discount, total: l.quantity * l.unitPrice - l.discount }))
+    : [{ name: t.client, quantity: 1, unitPrice: t.amount, discount: 0, total: t.amount }];
+  const subtotal = lines.reduce((sum, l) => sum + l.total, 0);
+  const rows = lines.map(l => thermal
+    ? `<tr><td colspan="2">${escapeHtml(l.name)}</td></tr><tr class="sub"><td>${l.quantity} × ${money(l.unitPrice)}${l.discount ? ` - ${money(l.discount)}` : ''}</td><td class="num">${money(l.total)}</td></tr>`
+    : `<tr><td>${escapeHtml(l.name)}</td><td class="num">${l.quantity}</td><td class="num">${money(l.unitPrice)}</td><td class="num">${l.discount ? money(l.discount) : '-'}</td><td class="num">${money(l.total)}</td></tr>`).join('');
+  const totals = [
+    ...(t.orderDiscount ? [['المجموع', money(subtotal)], ['خصم الطلب', `- ${money(t.orderDiscount)}`]] : []),
+    ['الإجمالي', money(t.amount)],
+    ...(t.type === 'debt' ? [['المدفوع', money(t.paidAmount || 0)], ['المتبقي', money(getOutstanding(t))]] : []),
+  ].map(([label, value], i, all) => `<tr class="${i === all.length - 1 || label === 'الإجمالي' ? 'strong' : ''}"><td>${label}</td><td class="num">${value}</td></tr>`).join('');
+  const fontSize = layout === '58mm' ? 10 : thermal ? 11 : 13;
+  return `<!DOCTYPE html><html lang="ar" dir="rtl"><head><meta charset="UTF-8" />
+<link href="https://fonts.googleapis.com/css2?family=IBM+Plex+Sans:wght@400;600&family=Readex+Pro:wght@400;600&display=swap" rel="stylesheet">
+<style>
+  @page { size: ${thermal ? `${RECEIPT_LAYOUTS[layout].widthMm}mm auto` : 'A4'}; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #fff; color: #000; font-family: 'Readex Pro', sans-serif; font-size: ${fontSize}px; line-height: 1.5; }
+  .page { width: ${RECEIPT_LAYOUTS[layout].widthMm}mm; padding: ${thermal ? '3mm' : '15mm'}; }
+  .head { text-align: center; margin-bottom: ${thermal ? 6 : 16}px; }
+  .head img { max-width: ${thermal ? 40 : 70}px; max-height: ${thermal ? 40 : 70}px; }
+  .head h1 { font-size: ${fontSize + 5}px; margin: 4px 0; }
+  .muted { color: #555; }
+  .num { font-family: 'IBM Plex Sans', sans-serif; text-align: left; white-space: nowrap; }
+  .meta { display: flex; justify-content: space-between; ${thermal ? 'flex-direction: column;' : ''} border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 6px 0; margin-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  .items th { text-align: right; border-bottom: 1px solid #000; padding: 4px 2px; }
+  .items td { padding: ${thermal ? '1px 0' : '6px 2px'}; ${thermal ? '' : 'border-bottom: 1px solid #ddd;'} }
+  .items tr.sub td { color: #333; padding-bottom: 4px; }
+  .totals { margin-top: 8px; border-top: 1px dashed #000; }
+  .totals td { padding: 2px 0; }
+  .totals tr.strong td { font-weight: 600; font-size: ${fontSize + 2}px; }
+  .foot { text-align: center; margin-top: 12px; border-top: 1px dashed #000; padding-top: 6px; }
+</style></head><body><div class="page">
+  <div class="head">
+    ${store.logo ? `<img src="${escapeHtml(store.logo)}" alt="" />` : ''}
+    <h1>${escapeHtml(store.name)}</h1>
+    ${store.address ? `<div class="muted">${escapeHtml(store.address)}</div>` : ''}
+    ${store.phone ? `<div class="muted num" style="text-align:center">${escapeHtml(store.phone)}</div>` : ''}
+    <div style="font-weight:600;margin-top:6px">${RECEIPT_TITLES[t.type] || 'إيصال'}</div>
+  </div>
+  <div class="meta">
+    <div>رقم: <span class="num">${t.invoiceNumber ? formatInvoiceNumber(t.invoiceNumber) : escapeHtml(t.id)}</span></div>
+    <div>التاريخ: <span class="num">${escapeHtml(t.date)} ${escapeHtml(t.time)}</span></div>
+    ${t.type === 'debt' && t.dueDate ? `<div>الاستحقاق: <span class="num">${escapeHtml(t.dueDate)}</span></div>` : ''}
+    ${t.customerId || t.type !== 'sale' ? `<div>العميل: ${escapeHtml(clientName)}${t.clientPhone ? ` <span class="num">${escapeHtml(t.clientPhone)}</span>` : ''}</div>` : ''}
+    ${t.refundOf ? `<div>مرتجع من: <span class="num">${escapeHtml(t.refundOf)}</span></div>` : ''}
+  </div>
+  <table class="items">
+    ${thermal ? '' : '<thead><tr><th>الصنف</th><th>الكمية</th><th>السعر</th><th>الخصم</th><th>المجموع</th></tr></thead>'}
+    <tbody>${rows}</tbody>
+  </table>
+  <table class="totals"><tbody>${totals}</tbody></table>
+  <div class="foot">شكراً لتعاملكم معنا</div>
+</div></body></html>`;
+};
+
+// Rasterises a rendered document (receipt or statement) so Arabic shaping and RTL come out exactly as the browser draws them
+const downloadDocumentPdf = async (body: HTMLElement, layout: ReceiptLayout, fileName: string) => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import('html2canvas'), import('jspdf')]);
+  const canvas = await html2canvas(body, { scale: 2, backgroundColor: '#ffffff', useCORS: true });
+  const width = RECEIPT_LAYOUTS[layout].widthMm;
+  const imageHeight = canvas.height * width / canvas.width;
+  const pageHeight = layout === 'a4' ? 297 : imageHeight;
+  const pdf = new jsPDF({ unit: 'mm', format: [width, pageHeight], orientation: 'portrait' });
+  const image = canvas.toDataURL('image/jpeg', 0.92);
+  for (let offset = 0; offset < imageHeight; offset += pageHeight) {
+    if (offset > 0) pdf.addPage([width, pageHeight], 'portrait');
+    pdf.addImage(image, 'JPEG', 0, -offset, width, imageHeight);
+  }
+  pdf.save(fileName);
+};
+
+// --- Client Statements ---
+interface StatementRow { date: string; reference: string; description: string; debit: number; credit: number; balance: number }
+interface StatementSection { currency: Currency; opening: number; rows: StatementRow[]; closing: number }
+
+// Debts are debits and payments credits; each currency keeps its own running balance
+const buildClientStatement = (transactions: Transaction[], clientKey: string, start: string, end: string): StatementSection[] => {
+  const entries = transactions
+    .filter(t => (t.type === 'debt' || t.type === 'payment') && getClientKey(t) === clientKey)
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+  return CURRENCIES.map(currency => {
+    let opening = 0;
+    const rows: Omit<StatementRow, 'balance'>[] = [];
+    entries.filter(t => t.currency === currency).forEach(t => {
+      const goods = t.saleLines?.length ? ` — ${t.saleLines.map(l => `${l.name} ×${l.quantity}`).join('، ')}` : '';
+      const lines = t.type === 'payment'
+        ? [{ description: 'دفعة', debit: 0, credit: t.amount }]
+        : [
+            { description: `دين${goods}`, debit: t.amount, credit: 0 },
+            // Settled before payments were recorded separately, so the settlement has no transaction of its own
+            ...(t.status === 'completed' && t.paidAmount === undefined ? [{ description: 'تسوية', debit: 0, credit: t.amount }] : [])
+          ];
+      lines.forEach(l => {
+        if (t.date < start) opening += l.debit - l.credit;
+        else if (t.date <= end) rows.push({ date: t.date, reference: t.invoiceNumber ? formatInvoiceNumber(t.invoiceNumber) : t.id, ...l });
+      });
+    });
+    let balance = opening;
+    const withBalance = rows.map(r => ({ ...r, balance: balance += r.debit - r.credit }));
+    return { currency, opening, rows: withBalance, closing: balance };
+  }).filter(s => s.opening !== 0 || s.rows.length > 0);
+};
+
+const buildStatementHtml = (store: StoreProfile, client: { name: string; phone: string }, start: string, end: string, sections: StatementSection[]) => {
+  const money = (amount: number, currency: Currency) => amount ? escapeHtml(formatCurrency(amount, currency)) : '';
+  const tables = sections.map(s => `
+  <h2>الحساب بعملة ${s.currency}</h2>
+  <table>
+    <thead><tr><th>التاريخ</th><th>المرجع</th><th>البيان</th><th>مدين</th><th>دائن</th><th>الرصيد</th></tr></thead>
+    <tbody>
+      <tr class="strong"><td class="num">${escapeHtml(start)}</td><td></td><td>الرصيد الافتتاحي</td><td></td><td></td><td class="num">${escapeHtml(formatCurrency(s.opening, s.currency))}</td></tr>
+      ${s.rows.map(r => `<tr><td class="num">${escapeHtml(r.date)}</td><td class="num">${escapeHtml(r.reference)}</td><td>${escapeHtml(r.description)}</td><td class="num">${money(r.debit, s.currency)}</td><td class="num">${money(r.credit, s.currency)}</td><td class="num">${escapeHtml(formatCurrency(r.balance, s.currency))}</td></tr>`).join('')}
+      <tr class="strong"><td class="num">${escapeHtml(end)}</td><td></td><td>الرصيد الختامي</td><td></td><td></td><td class="num">${escapeHtml(formatCurrency(s.closing, s.currency))}</td></tr>
+    </tbody>
+  </table>`).join('');
+  return `<!DOCTYPE html><html lang="ar" dir="rtl"><head><meta charset="UTF-8" />
+<link href="https://fonts.googleapis.com/css2?family=IBM+Plex+Sans:wght@400;600&family=Readex+Pro:wght@400;600&display=swap" rel="stylesheet">
+<style>
+  @page { size: A4; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #fff; color: #000; font-family: 'Readex Pro', sans-serif; font-size: 12px; line-height: 1.5; }
+  .page { width: 210mm; padding: 15mm; }
+  .head { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #000; padding-bottom: 10px; margin-bottom: 12px; }
+  .head img { max-width: 60px; max-height: 60px; }
+  .head h1 { font-size: 18px; margin: 0; }
+  .muted { color: #555; }
+  .num { font-family: 'IBM Plex Sans', sans-serif; white-space: nowrap; }
+  h2 { font-size: 14px; margin: 16px 0 6px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: right; background: #f2f2f2; border: 1px solid #ccc; padding: 5px; }
+  td { border: 1px solid #ddd; padding: 5px; }
+  tr.strong td { font-weight: 600; background: #fafafa; }
+</style></head><body><div class="page">
+  <div class="head">
+    <div>
+      <h1>${escapeHtml(store.name)}</h1>
+      ${store.address ? `<div class="muted">${escapeHtml(store.address)}</div>` : ''}
+      ${store.phone ? `<div class="muted num">${escapeHtml(store.phone)}</div>` : ''}
+    </div>
+    ${store.logo ? `<img src="${escapeHtml(store.logo)}" alt="" />` : ''}
+  </div>
+  <div style="font-size:16px;font-weight:600">كشف حساب</div>
+  <div>العميل: <strong>${escapeHtml(client.name)}</strong>${client.phone ? ` — <span class="num">${escapeHtml(client.phone)}</span>` : ''}</div>
+  <div class="muted">الفترة: <span class="num">${escapeHtml(start)}</span> إلى <span class="num">${escapeHtml(end)}</span></div>
+  ${tables || '<p class="muted">لا توجد حركات في هذه الفترة</p>'}
+</div></body></html>`;
+};
+
+// --- Debt Payments & Installments ---
+const getOutstanding = (t: Transaction) => Math.max(t.amount - (t.paidAmount || 0), 0);
+
+// Applies a payment to the oldest debts first. Debts keep their original date and only close once fully paid.
+const allocatePayment = (debts: Transaction[], amount: number) => {
+  let remaining = amount;
+  const allocations: PaymentAllocation[] = [];
+  const updatedDebts: Transaction[] = [];
+  [...debts].sort((a, b) => a.date.localeCompare(b.date)).forEach(d => {
+    const due = getOutstanding(d);
+    if (remaining <= 0 || due <= 0) return;
+    const applied = Math.min(due, remaining);
+    remaining -= applied;
+    const paidAmount = (d.paidAmount || 0) + applied;
+    allocations.push({ debtId: d.id, amount: applied });
+    updatedDebts.push({ ...d, paidAmount, status: paidAmount >= d.amount ? 'completed' : 'pending' });
+  });
+  return { allocations, updatedDebts };
+};
+
+// Equal monthly installments; rounding leftovers go on the last one
+const buildInstallments = (total: number, count: number, firstDueDate: string): Installment[] => {
+  const base = Math.floor((total / count) * 100) / 100;
+  const [y, m, day] = firstDueDate.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    // A due day past the end of a shorter month falls on its last day, e.g. Jan 31 -> Feb 28 -> Mar 31
+    const d = new Date(Date.UTC(y, m - 1 + i, Math.min(day, new Date(Date.UTC(y, m + i, 0)).getUTCDate())));
+    return { dueDate: d.toISOString().split('T')[0], amount: i === count - 1 ? Math.round((total - base * (count - 1)) * 100) / 100 : base };
+  });
+};
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+// Installments are paid off in order, so one counts as paid once payments since the plan cover it and every earlier one
+const getInstallmentSchedule = (debt: Transaction) => {
+  if (!debt.installmentPlan) return [];
+  const paidSincePlan = (debt.paidAmount || 0) - debt.installmentPlan.startPaid;
+  let cumulative = 0;
+  return debt.installmentPlan.installments.map(i => {
+    cumulative += i.amount;
+    return { ...i, paid: paidSincePlan >= cumulative - 0.01 };
+  });
+};
+
+// The date a debt's remaining balance falls due: its next unpaid installment, then its agreed due date.
+// Debts without terms are treated as due on the day they were recorded.
+const getDebtDueDate = (t: Transaction) => getInstallmentSchedule(t).find(i => !i.paid)?.dueDate || t.dueDate || t.date;
+const hasAgreedDueDate = (t: Transaction) => !!t.dueDate || !!t.installmentPlan;
+
+type AgingBucket = 'current' | 'd30' | 'd60' | 'd90' | 'over90';
+const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'غير مستحق' },
+  { key: 'd30', label: '0–30 يوم' },
+  { key: 'd60', label: '31–60 يوم' },
+  { key: 'd90', label: '61–90 يوم' },
+  { key: 'over90', label: '+90 يوم' }
+];
+const getAgingBucket = (daysOverdue: number): AgingBucket =>
+  daysOverdue < 0 ? 'current' : daysOverdue <= 30 ? 'd30' : daysOverdue <= 60 ? 'd60' : daysOverdue <= 90 ? 'd90' : 'over90';
+const PAYMENT_TERMS_OPTIONS = [0, 7, 15, 30, 60, 90];
+const formatPaymentTerms = (days: number) => days ? `صافي ${days} يوم` : 'فوري';
+
+const generateId = () => `TX-${crypto.randomUUID()}`;
+const generateItemId = () => `ITM-${crypto.randomUUID()}`;
+const generateUserId = () => `USR-${crypto.randomUUID()}`;
+const generateCustomerId = () => `CUS-${crypto.randomUUID()}`;
+const generateReminderId = () => `REM-${crypto.randomUUID()}`;
+const generateRecurringId = () => `REC-${crypto.randomUUID()}`;
+const generateMovementId = () => `MOV-${crypto.randomUUID()}`;
 const getStartOfMonth = () => { const d = new Date(); return new Date(d.getFullYear(), d.getMonth(), 1).toISOString().split('T')[0]; };
 const getToday = () => new Date().toISOString().split('T')[0];
 
+// --- Recurring Transactions ---
+const RECURRENCE_LABELS: Record<RecurrenceCadence, string> = { daily: 'يومي', weekly: 'أسبوعي', monthly: 'شهري', custom: 'مخصص' };
+const MAX_RECURRING_CATCH_UP = 366; // occurrences per template per run, so a long-closed app can't flood the ledger
+
+const getNextOccurrence = (tpl: RecurringTemplate, date: string) => {
+  if (tpl.cadence !== 'monthly') return addDays(date, tpl.cadence === 'daily' ? 1 : tpl.cadence === 'weekly' ? 7 : Math.max(tpl.intervalDays || 1, 1));
+  // Day 31 falls back to the month's last day without drifting for the months after
+  const [y, m] = date.split('-').map(Number);
+  const day = Math.min(Number(tpl.startDate.slice(8, 10)), new Date(Date.UTC(y, m + 1, 0)).getUTCDate());
+  return new Date(Date.UTC(y, m, day)).toISOString().split('T')[0];
+};
+
+const getRecurringOccurrences = (tpl: RecurringTemplate, until: string, limit = MAX_RECURRING_CATCH_UP) => {
+  const dates: string[] = [];
+  for (let d = tpl.nextDate; d <= until && (!tpl.endDate || d <= tpl.endDate) && dates.length < limit; d = getNextOccurrence(tpl, d)) dates.push(d);
+  return dates;
+};
+
+const formatRecurrence = (tpl: RecurringTemplate) => tpl.cadence === 'custom' ? `كل ${tpl.intervalDays || 1} يوم` : RECURRENCE_LABELS[tpl.cadence];
+
+const getPostedRecurringDates = (transactions: Transaction[], templateId: string) =>
+  new Set(transactions.filter(t => t.recurringId === templateId).map(t => t.date));
+
+// Moves the template's cursor past occurrences that were posted or skipped, and forgets skips it has passed
+const advanceRecurringCursor = (tpl: RecurringTemplate, posted: Set<string>): RecurringTemplate => {
+  let next = tpl.nextDate;
+  for (let i = 0; i < MAX_RECURRING_CATCH_UP && (posted.has(next) || tpl.skipDates.includes(next)); i++) next = getNextOccurrence(tpl, next);
+  return { ...tpl, nextDate: next, skipDates: tpl.skipDates.filter(d => d >= next) };
+};
+
+// One id per template and date: posting the same occurrence twice (a double load, a double click) rewrites the same row
+const buildRecurringTransaction = (tpl: RecurringTemplate, date: string): Transaction => ({
+  id: `TX-${tpl.id}-${date}`, type: tpl.type, client: tpl.name, amount: tpl.amount, currency: tpl.currency, date,
+  time: new Date().toLocaleTimeString('en-US', {hour: '2-digit', minute:'2-digit'}),
+  status: 'completed', method: 'Recurring', recurringId: tpl.id,
+  ...(tpl.type === 'expense' && tpl.category ? { category: tpl.category } : {})
+});
+
+// Posts every due occurrence of auto-post templates (catching up on days the app was closed).
+// Templates that need confirmation are left for the user; only their cursor moves past already-handled dates.
+const runRecurringTemplates = (templates: RecurringTemplate[], transactions: Transaction[], today: string) => {
+  const posted: Transaction[] = [];
+  const updated: RecurringTemplate[] = [];
+  templates.filter(tpl => tpl.active).forEach(tpl => {
+    const done = getPostedRecurringDates(transactions, tpl.id);
+    if (tpl.autoPost) getRecurringOccurrences(tpl, today).filter(d => !done.has(d) && !tpl.skipDates.includes(d)).forEach(d => {
+      posted.push(buildRecurringTransaction(tpl, d));
+      done.add(d);
+    });
+    const next = advanceRecurringCursor(tpl, done);
+    if (next.nextDate !== tpl.nextDate) updated.push(next);
+  });
+  return { posted, updated };
+};
+
+// --- Expense Categories & Budgets ---
+const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  { id: 'CAT-rent', name: 'ايجار', keywords: ['ايجار', 'إيجار', 'rent'], monthlyBudget: 0, budgetCurrency: 'IQD' },
+  { id: 'CAT-salaries', name: 'رواتب', keywords: ['راتب', 'رواتب', 'اجور', 'salary', 'wages'], monthlyBudget: 0, budgetCurrency: 'IQD' },
+  { id: 'CAT-electricity', name: 'كهرباء', keywords: ['كهرباء', 'مولد', 'امبير', 'electricity', 'generator'], monthlyBudget: 0, budgetCurrency: 'IQD' },
+  { id: 'CAT-internet', name: 'انترنت واتصالات', keywords: ['انترنت', 'رصيد', 'internet', 'phone'], monthlyBudget: 0, budgetCurrency: 'IQD' },
+  { id: 'CAT-maintenance', name: 'صيانة', keywords: ['صيانة', 'تصليح', 'maintenance', 'repair'], monthlyBudget: 0, budgetCurrency: 'IQD' },
+  { id: 'CAT-transport', name: 'نقل', keywords: ['نقل', 'وقود', 'بنزين', 'توصيل', 'transport', 'fuel', 'delivery'], monthlyBudget: 0, budgetCurrency: 'IQD' },
+  { id: 'CAT-other', name: 'أخرى', keywords: [], monthlyBudget: 0, budgetCurrency: 'IQD' }
+];
+const UNCATEGORISED_LABEL = 'غير مصنف';
+const PURCHASES_LABEL = 'مشتريات البضاعة';
+const BUDGET_WARNING_RATIO = 0.8;
+// Form value for a deliberate "uncategorised" pick; an empty value lets the description suggest a category
+const UNCATEGORISED_CHOICE = 'none';
+const AUTO_CATEGORY_LABEL = 'تلقائي حسب الوصف';
+
+const generateCategoryId = () => `CAT-${crypto.randomUUID()}`;
+
+// Accepts an id or a name, so older free-text categories and spreadsheet columns still resolve
+const findExpenseCategory = (categories: ExpenseCategory[], value?: string) => {
+  if (!value?.trim()) return undefined;
+  return categories.find(c => c.id === value) || categories.find(c => normalizeHeader(c.name) === normalizeHeader(value));
+};
+
+// Rewrites categories saved as free text to the matching category id, so renaming a category keeps its history
+const migrateCategoryNames = (categories: ExpenseCategory[], txs: Transaction[], templates: RecurringTemplate[]) => {
+  const toId = <T extends { category?: string }>(r: T): T | null => {
+    const match = r.category && !categories.some(c => c.id === r.category) ? findExpenseCategory(categories, r.category) : undefined;
+    return match ? { ...r, category: match.id } : null;
+  };
+  return {
+    txs: txs.map(toId).filter((t): t is Transaction => t !== null),
+    templates: templates.map(toId).filter((t): t is RecurringTemplate => t !== null)
+  };
+};
+
+const suggestExpenseCategory = (categories: ExpenseCategory[], ...texts: (string | undefined)[]) => {
+  const haystack = texts.filter(Boolean).join(' ').toLowerCase();
+  return haystack ? categories.find(c => c.keywords.some(k => k.trim() && haystack.includes(k.trim().toLowerCase()))) : undefined;
+};
+
+// --- SKU / Barcode ---
+// SKUs and barcodes share one namespace so a scanned code always resolves to a single item
+const normalizeCode = (code: unknown) => String(code ?? '').trim().toLowerCase();
+
+const findItemByCode = (inventory: InventoryItem[], code: unknown) => {
+  const c = normalizeCode(code);
+  return c ? inventory.find(i => normalizeCode(i.sku) === c || normalizeCode(i.barcode) === c) : undefined;
+};
+
+// Returns the other item already holding one of `item`'s codes, if any
+const findCodeConflict = (inventory: InventoryItem[], item: InventoryItem) => {
+  const codes = [item.sku, item.barcode].map(normalizeCode).filter(Boolean);
+  if (codes.length === 2 && codes[0] === codes[1]) return undefined;
+  return inventory.find(i => i.id !== item.id && [i.sku, i.barcode].some(c => codes.includes(normalizeCode(c))));
+};
+
+// Decodes the first barcode in a photo using the browser's Shape Detection API (Chromium / Android),
+// falling back to the zxing decoder on browsers without it (Safari / Firefox)
+const decodeBarcodeFromImage = async (file: File): Promise<string | null> => {
+  const Detector = (window as unknown as { BarcodeDetector?: new () => { detect: (source: ImageBitmap) => Promise<{ rawValue: string }[]> } }).BarcodeDetector;
+  if (!Detector) {
+    const { BrowserMultiFormatReader } = await import('@zxing/browser');
+    const url = URL.createObjectURL(file);
+    try {
+      const result = await new BrowserMultiFormatReader().decodeFromImageUrl(url);
+      return result.getText().trim() || null;
+    } catch (err) {
+      // zxing reports an image without a readable barcode as an exception
+      const kind = (err as { getKind?: () => string }).getKind?.();
+      if (kind === 'NotFoundException' || kind === 'ChecksumException' || kind === 'FormatException') return null;
+      throw err;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  const bitmap = await createImageBitmap(file);
+  try {
+    const codes = await new Detector().detect(bitmap);
+    return codes[0]?.rawValue.trim() || null;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// --- Exchange Rates ---
+// `rates` must be sorted by effectiveDate ascending; dates before the first entry use the earliest rate
+const getRateForDate = (rates: ExchangeRate[], date: string): ExchangeRate => {
+  let chosen = rates[0];
+  for (const r of rates) {
+    if (r.effectiveDate <= date) chosen = r;
+    else break;
+  }
+  return chosen;
+};
+
+// --- Receipt OCR Parsing ---
+// Extracts total, date and vendor from raw Tesseract output (Arabic + English receipts)
+const RECEIPT_TOTAL_KEYWORDS = ['total', 'amount due', 'grand total', 'net', 'المجموع', 'الاجمالي', 'الإجمالي', 'المبلغ', 'الصافي', 'صافي'];
+// Whole words only, so "net" doesn't match "internet" or "shop.net"; \b doesn't understand Arabic letters
+const RECEIPT_TOTAL_PATTERN = new RegExp(`(?<![\\p{L}\\p{N}.])(?:${RECEIPT_TOTAL_KEYWORDS.join('|')})(?![\\p{L}\\p{N}])`, 'iu');
+
+const normalizeDigits = (text: string) => text
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/٫/g, '.').replace(/٬/g, ',');
+
+const extractNumbers = (line: string) => (line.match(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g) || [])
+    .map(n => parseFloat(n.replace(/,/g, '')))
+    .filter(n => !isNaN(n) && n > 0);
+
+const parseReceiptText = (rawText: string) => {
+    const lines = normalizeDigits(rawText).split('\n').map(l => l.trim()).filter(Boolean);
+
+    // 1. Total: largest number on a line carrying a total keyword, else the largest number overall
+    let total = 0;
+    // Lines with a date or a phone number (7+ digits) would otherwise win as the largest number
+    const amountLines = lines.filter(l => !l.match(/\d{1,4}[\/\-.]\d{1,2}[\/\-.]\d{1,4}/) && !l.match(/\d{7,}/));
+    amountLines.filter(l => RECEIPT_TOTAL_PATTERN.test(l)).forEach(l => {
+        extractNumbers(l).forEach(n => { if (n > total) total = n; });
+    });
+    if (!total) {
+        amountLines.forEach(l => {
+            extractNumbers(l).forEach(n => { if (n > total) total = n; });
+        });
+    }
+
+    // 2. Date: ISO (2024-01-31) or day-first (31/01/2024)
+    let date = '';
+    for (const l of lines) {
+        const iso = l.match(/(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})/);
+        const dmy = l.match(/(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})/);
+        const [y, m, d] = iso ? [iso[1], iso[2], iso[3]] : dmy ? [dmy[3], dmy[2], dmy[1]] : [];
+        if (y && parseInt(m) >= 1 && parseInt(m) <= 12 && parseInt(d) >= 1 && parseInt(d) <= 31) {
+            date = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+            break;
+        }
+    }
+
+    // 3. Vendor: first line that is mostly letters (receipt headers carry the shop name)
+    const vendor = lines.find(l => (l.match(/[A-Za-z\u0600-\u06FF]/g) || []).length >= 3 && (l.match(/\d/g) || []).length < l.length / 3) || '';
+
+    return { total, date, vendor };
+};
+
+// --- Spreadsheet Import Mapping ---
+const IMPORT_FIELDS: { id: ImportField; label: string; required?: boolean }[] = [
+    { id: 'name', label: 'الاسم / الوصف', required: true },
+    { id: 'amount', label: 'المبلغ', required: true },
+    { id: 'date', label: 'التاريخ' },
+    { id: 'type', label: 'النوع' },
+    { id: 'currency', label: 'العملة' },
+    { id: 'phone', label: 'الهاتف' },
+    { id: 'item', label: 'المنتج' },
+    { id: 'sku', label: 'الرمز / الباركود' },
+    { id: 'category', label: 'تصنيف المصروف' },
+];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    name: ['menu_item_name', 'name', 'product', 'description', 'details', 'client', 'customer', 'الاسم', 'الوصف', 'التفاصيل', 'العميل'],
+    amount: ['actual_selling_price', 'price', 'amount', 'total', 'value', 'المبلغ', 'السعر', 'المجموع', 'القيمة'],
+    date: ['date', 'time', 'datetime', 'created_at', 'التاريخ', 'الوقت'],
+    type: ['type', 'transaction_type', 'kind', 'النوع'],
+    currency: ['currency', 'العملة'],
+    phone: ['phone', 'mobile', 'phone_number', 'الهاتف', 'الموبايل', 'رقم الهاتف'],
+    item: ['item', 'item_name', 'product_name', 'المنتج', 'المادة'],
+    sku: ['sku', 'barcode', 'code', 'item_code', 'الرمز', 'الباركود', 'الكود'],
+    category: ['category', 'expense_category', 'التصنيف', 'الفئة', 'البند'],
+};
+
+const IMPORT_EXPENSE_KEYWORDS = ['فاتورة', 'ايجار', 'راتب', 'كهرباء', 'انترنت', 'صيانة', 'شراء', 'صرف', 'expense', 'bill', 'rent', 'salary'];
+const IMPORT_DEBT_KEYWORDS = ['دين', 'اجل', 'آجل', 'قرض', 'debt', 'credit'];
+const IMPORT_PREVIEW_ROWS = 8;
+
+const normalizeHeader = (cell: unknown) => String(cell ?? '').toLowerCase().trim();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const getHeaderSignature = (row: any[] = []) => row.map(normalizeHeader).join('|');
+
+// Picks the row (within the first 10) whose cells match the most known column names
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const detectHeaderRow = (rows: any[][]) => {
+    let bestIndex = -1, bestScore = 0;
+    for (let i = 0; i < Math.min(rows.length, 10); i++) {
+        const score = (rows[i] || []).filter(c => Object.values(HEADER_ALIASES).some(aliases => aliases.includes(normalizeHeader(c)))).length;
+        if (score > bestScore) { bestScore = score; bestIndex = i; }
+    }
+    return bestIndex;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const guessColumnMapping = (headerRow: any[] = []): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    headerRow.forEach((cell, idx) => {
+        const header = normalizeHeader(cell);
+        const field = IMPORT_FIELDS.find(f => mapping[f.id] === undefined && HEADER_ALIASES[f.id].includes(header));
+        if (field) mapping[field.id] = idx;
+    });
+    return mapping;
+};
+
+// --- Catalogue Import ---
+const CATALOGUE_HEADER_ALIASES: Record<CatalogueField, string[]> = {
+    name: ['name', 'product', 'product_name', 'item', 'item_name', 'الاسم', 'المنتج', 'المادة'],
+    category: ['category', 'group', 'القسم', 'الفئة', 'التصنيف'],
+    quantity: ['quantity', 'qty', 'stock', 'الكمية', 'المخزون'],
+    minLevel: ['minlevel', 'min_level', 'min', 'reorder', 'الحد الأدنى', 'الحد الادنى'],
+    price: ['price', 'selling_price', 'السعر', 'سعر البيع'],
+    cost: ['cost', 'unit_cost', 'purchase_price', 'الكلفة', 'التكلفة', 'سعر الشراء'],
+    sku: ['sku', 'code', 'item_code', 'الرمز', 'الكود'],
+    barcode: ['barcode', 'ean', 'upc', 'الباركود'],
+};
+
+// Upserts spreadsheet rows into the catalogue: match by SKU or barcode first, then by name. Blank cells keep the current value.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const buildCataloguePlan = (fileName: string, rows: any[][], inventory: InventoryItem[]): CatalogueImportPlan | null => {
+    let headerIndex = -1, bestScore = 0;
+    for (let i = 0; i < Math.min(rows.length, 10); i++) {
+        const score = (rows[i] || []).filter(c => Object.values(CATALOGUE_HEADER_ALIASES).some(aliases => aliases.includes(normalizeHeader(c)))).length;
+        if (score > bestScore) { bestScore = score; headerIndex = i; }
+    }
+    if (headerIndex < 0) return null;
+    const columns: Partial<Record<CatalogueField, number>> = {};
+    rows[headerIndex].forEach((cell, idx) => {
+        const field = (Object.keys(CATALOGUE_HEADER_ALIASES) as CatalogueField[]).find(f => columns[f] === undefined && CATALOGUE_HEADER_ALIASES[f].includes(normalizeHeader(cell)));
+        if (field) columns[field] = idx;
+    });
+    if (columns.name === undefined && columns.sku === undefined && columns.barcode === undefined) return null;
+
+    const byCode = new Map<string, InventoryItem>();
+    inventory.forEach(i => [i.sku, i.barcode].forEach(c => { if (normalizeCode(c)) byCode.set(normalizeCode(c), i); }));
+    const byName = new Map(inventory.map(i => [normalizeHeader(i.name), i]));
+    const plan: CatalogueImportPlan = { fileName, creates: [], updates: [], skipped: 0 };
+    const touched = new Map<string, InventoryItem>(); // later rows for the same product build on earlier ones
+
+    rows.slice(headerIndex + 1).forEach(row => {
+        const cell = (f: CatalogueField) => columns[f] === undefined ? '' : String(row[columns[f]!] ?? '').trim();
+        const num = (f: CatalogueField) => { const v = cell(f); return v === '' ? undefined : parseImportAmount(v); };
+        const name = cell('name'), sku = cell('sku'), barcode = cell('barcode');
+        const existing = (sku && byCode.get(normalizeCode(sku))) || (barcode && byCode.get(normalizeCode(barcode))) || (name && byName.get(normalizeHeader(name))) || undefined;
+        if (!existing && !name) { plan.skipped++; return; }
+        const base = existing ? (touched.get(existing.id) || existing) : { id: generateItemId(), name, category: '', quantity: 0, minLevel: 5, price: 0, cost: 0 };
+        const next: InventoryItem = {
+            ...base,
+            name: name || base.name,
+            category: cell('category') || base.category,
+            quantity: num('quantity') ?? base.quantity,
+            minLevel: num('minLevel') ?? base.minLevel,
+            price: num('price') ?? base.price,
+            cost: num('cost') ?? base.cost,
+            ...(sku ? { sku } : {}),
+            ...(barcode ? { barcode } : {})
+        };
+        if ([next.quantity, next.minLevel, next.price, next.cost].some(v => isNaN(v))) { plan.skipped++; return; }
+        // A code already owned by a different product would make scans ambiguous
+        if ([sku, barcode].some(c => c && byCode.has(normalizeCode(c)) && byCode.get(normalizeCode(c))!.id !== next.id)) { plan.skipped++; return; }
+        if (!existing) {
+            plan.creates.push(next);
+            byName.set(normalizeHeader(next.name), next);
+            [sku, barcode].forEach(c => { if (c) byCode.set(normalizeCode(c), next); });
+            return;
+        }
+        [sku, barcode].forEach(c => { if (c) byCode.set(normalizeCode(c), next); });
+        touched.set(existing.id, next);
+    });
+    touched.forEach((after, id) => {
+        const before = inventory.find(i => i.id === id);
+        if (before && JSON.stringify(before) !== JSON.stringify(after)) plan.updates.push({ before, after });
+    });
+    // Rows repeating a product created earlier in the same file are folded into that create
+    plan.creates = plan.creates.map(c => touched.get(c.id) || c);
+    return plan;
+};
+
+const parseImportAmount = (raw: unknown) => {
+    if (typeof raw === 'number') return raw;
+    if (typeof raw === 'string') return parseFloat(normalizeDigits(raw).replace(/[^0-9.]/g, ''));
+    return 0;
+};
+
+const parseImportDate = (raw: unknown) => {
+    // Excel serial dates (days since 1899-12-30)
+    if (typeof raw === 'number' && raw > 20000 && raw < 80000) return new Date(Math.round((raw - 25569) * 86400000)).toISOString().split('T')[0];
+    const str = normalizeDigits(String(raw ?? ''));
+    const iso = str.match(/\d{4}-\d{2}-\d{2}/);
+    if (iso) return iso[0];
+    const dmy = str.match(/(\d{1,2})[\/.](\d{1,2})[\/.](\d{4})/);
+    if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+    return getToday();
+};
+
+const parseImportType = (raw: unknown, name: string): { type: TransactionType; status: TransactionStatus } => {
+    const value = normalizeHeader(raw);
+    if (value) {
+        if (['expense', 'مصروف', 'مصروفات', 'صرف'].some(k => value.includes(k))) return { type: 'expense', status: 'completed' };
+        if (['debt', 'credit', 'دين', 'آجل', 'اجل'].some(k => value.includes(k))) return { type: 'debt', status: 'pending' };
+        if (['refund', 'return', 'مرتجع', 'استرجاع'].some(k => value.includes(k))) return { type: 'refund', status: 'completed' };
+        if (['sale', 'بيع', 'مبيعات'].some(k => value.includes(k))) return { type: 'sale', status: 'completed' };
+    }
+    // No usable type column: classify by keywords in the name
+    const lowerName = name.toLowerCase();
+    if (IMPORT_EXPENSE_KEYWORDS.some(k => lowerName.includes(k))) return { type: 'expense', status: 'completed' };
+    if (IMPORT_DEBT_KEYWORDS.some(k => lowerName.includes(k))) return { type: 'debt', status: 'pending' };
+    return { type: 'sale', status: 'completed' };
+};
+
+// 64-bit FNV-1a (two 32-bit passes with different seeds) over the normalized row content
+const hashRow = (row: unknown[]) => {
+    const str = row.map(c => normalizeHeader(c)).join('\u001f');
+    const fnv = (seed: number) => {
+        let h = seed;
+        for (let i = 0; i < str.length; i++) { h ^= str.charCodeAt(i); h = Math.imul(h, 0x01000193); }
+        return (h >>> 0).toString(16).padStart(8, '0');
+    };
+    return fnv(0x811c9dc5) + fnv(0x01000193);
+};
+
+const buildImportTransactions = (wizard: ImportWizardState, inventory: InventoryItem[], categories: ExpenseCategory[]): Transaction[] => {
+    const { rows, headerRowIndex, mapping } = wizard;
+    const cell = (row: unknown[], field: ImportField) => mapping[field] !== undefined ? row[mapping[field]!] : undefined;
+    const newTxs: Transaction[] = [];
+    // Identical rows inside one file are legitimate (e.g. two equal sales), so the fingerprint carries an occurrence counter
+    const occurrences = new Map<string, number>();
+
+    for (let i = headerRowIndex + 1; i < rows.length; i++) {
+        const row = rows[i];
+        if (!row || row.length === 0) continue;
+
+        const amount = parseImportAmount(cell(row, 'amount'));
+        if (!amount) continue;
+
+        const rowHash = hashRow(row);
+        const occurrence = (occurrences.get(rowHash) || 0) + 1;
+        occurrences.set(rowHash, occurrence);
+
+        const rawName = cell(row, 'name');
+        const clientName = rawName != null && String(rawName).trim() ? String(rawName).trim() : "مادة مستوردة";
+        const { type, status } = parseImportType(cell(row, 'type'), clientName);
+        const rawCurrency = cell(row, 'currency');
+        const currency: 'USD' | 'IQD' = rawCurrency != null && /\$|usd|دولار/i.test(String(rawCurrency)) ? 'USD' : 'IQD';
+        const rawPhone = cell(row, 'phone');
+        // SKU is authoritative; names often differ between the POS export and our catalogue
+        const itemName = String(cell(row, 'item') ?? clientName).toLowerCase().trim();
+        const matchedItem = findItemByCode(inventory, cell(row, 'sku')) || inventory.find(inv => inv.name.toLowerCase() === itemName);
+        const rawCategory = cell(row, 'category');
+        const category = type === 'expense' ? (findExpenseCategory(categories, rawCategory != null ? String(rawCategory) : undefined) || suggestExpenseCategory(categories, clientName)) : undefined;
+
+        newTxs.push({
+            id: generateId(),
+            type,
+            client: clientName,
+            ...(rawPhone != null && String(rawPhone).trim() ? { clientPhone: String(rawPhone).trim() } : {}),
+            itemId: matchedItem?.id,
+            // Cost at import time, like a sale entered by hand
+            ...(matchedItem ? { itemCost: matchedItem.cost } : {}),
+            date: parseImportDate(cell(row, 'date')),
+            time: '12:00',
+            amount: Math.abs(amount),
+            currency,
+            status,
+            method: 'Import',
+            fingerprint: `${rowHash}-${occurrence}`,
+            ...(category ? { category: category.id } : {})
+        });
+    }
+    return newTxs;
+};
+
 // --- Performance Optimization: Chart Sampling ---
 // Reduces the number of points rendered in the chart by averaging data in windows
 const optimizeChartData = (data: { fullDate: string; date: string; revenue: number; expenses: number }[], limit: number) => {
@@ -214,22 +1571,38 @@ const optimizeChartData = (data: { fullDate: string; date: string; revenue: numb
 
 const App: React.FC = () => {
   // --- Auth & Config ---
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
-    const local = localStorage.getItem('sari_auth_token');
-    const session = sessionStorage.getItem('sari_auth_token');
-    return local === 'true' || session === 'true';
-  });
+  // With encryption on, a remembered session still needs the password to unlock the data key
+  const [currentUser, setCurrentUser] = useState<StoredUser | null>(null);
+  // Session tokens are verified asynchronously; until then neither the app nor the login form is shown
+  const [sessionChecked, setSessionChecked] = useState(() => isEncryptionEnabled());
+  const isAuthenticated = currentUser !== null;
+  const can = (permission: Permission) => hasPermission(currentUser, permission);
 
   const [isSignUp, setIsSignUp] = useState(false);
   const [authLoading, setAuthLoading] = useState(false);
   const [authError, setAuthError] = useState('');
   
   // Login State
-  const [loginEmail, setLoginEmail] = useState('');
+  const [loginEmail, setLoginEmail] = useState(() => isEncryptionEnabled() ? readUsers().find(u => u.id === peekSessionUserId())?.email || '' : '');
   const [loginPassword, setLoginPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
+  // User Management State
+  const [users, setUsers] = useState<StoredUser[]>(() => readUsers());
+  const [newUserForm, setNewUserForm] = useState<{ fullName: string; email: string; password: string; role: UserRole }>({ fullName: '', email: '', password: '', role: 'cashier' });
+  const [userFormError, setUserFormError] = useState('');
+
+  // Password Change State
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [passwordError, setPasswordError] = useState('');
+
+  // Encryption State
+  const [encryptionEnabled, setEncryptionEnabled] = useState<boolean>(() => isEncryptionEnabled());
+  const [encryptionPassword, setEncryptionPassword] = useState('');
+  const [encryptionError, setEncryptionError] = useState('');
+  const [encryptionBusy, setEncryptionBusy] = useState(false);
+
   // Sign Up State
   const [signUpData, setSignUpData] = useState({ storeName: '', fullName: '', email: '', phone: '', countryCode: '+964', password: '' });
   
@@ -239,17 +1612,34 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
   const [settingsTab, setSettingsTab] = useState<SettingsTab>('store');
   const [isUploading, setIsUploading] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   
   // --- Data State ---
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [reminders, setReminders] = useState<DebtReminder[]>([]);
+  const [recurring, setRecurring] = useState<RecurringTemplate[]>([]);
+  const [stockHistoryItemId, setStockHistoryItemId] = useState<string | null>(null);
+  const [adjustForm, setAdjustForm] = useState<{ reason: MovementReason; quantity: string; note: string }>({ reason: 'stocktake', quantity: '', note: '' });
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [customerForm, setCustomerForm] = useState<Customer | null>(null); // profile being viewed / edited
+  const [mergeSourceId, setMergeSourceId] = useState('');
+  const [posCart, setPosCart] = useState<{ lines: { itemId: string; quantity: number; discount: string }[]; orderDiscount: string; customer: string; onCredit: boolean; terms: string; currency: Currency }>({ lines: [], orderDiscount: '', customer: '', onCredit: false, terms: '', currency: 'IQD' });
+  const [posSearch, setPosSearch] = useState('');
+  const [inventorySearch, setInventorySearch] = useState('');
+  const [barcodeScanTarget, setBarcodeScanTarget] = useState<BarcodeScanTarget>('pos');
+  const [catalogueImport, setCatalogueImport] = useState<CatalogueImportPlan | null>(null);
+  const [purchaseForm, setPurchaseForm] = useState<{ supplier: string; date: string; currency: Currency; paid: boolean; lines: { itemId: string; quantity: string; unitCost: string }[] } | null>(null);
   
   // --- Settings ---
   const [storeInfo, setStoreInfo] = useState<StoreProfile>(() => {
     const saved = localStorage.getItem('sari_store_info');
-    return saved ? JSON.parse(saved) : { name: 'SARI Store', phone: '', address: '', logo: '', currencySymbol: 'IQD', knownCompanies: ['General Customer', 'Supplier A', 'Supplier B'] };
+    return saved ? JSON.parse(saved) : { name: 'SARI Store', phone: '', address: '', logo: '', currencySymbol: 'IQD' };
   });
   const [itemsPerPage, setItemsPerPage] = useState<number>(() => parseInt(localStorage.getItem('sari_items_per_page') || '10'));
   const [inventoryAlerts, setInventoryAlerts] = useState<boolean>(() => localStorage.getItem('sari_inventory_alerts') !== 'false');
@@ -264,16 +1654,40 @@ const App: React.FC = () => {
   const [reportStartDate, setReportStartDate] = useState(getStartOfMonth());
   const [reportEndDate, setReportEndDate] = useState(getToday());
   const [reportSearchTerm, setReportSearchTerm] = useState('');
-  const [newCompany, setNewCompany] = useState(''); 
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>(() => JSON.parse(localStorage.getItem('sari_import_profiles') || '[]'));
+  const [reminderTemplates, setReminderTemplates] = useState<ReminderTemplate[]>(() => JSON.parse(localStorage.getItem('sari_reminder_templates') || 'null') || DEFAULT_REMINDER_TEMPLATES);
+  const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>(() => JSON.parse(localStorage.getItem('sari_expense_categories') || 'null') || DEFAULT_EXPENSE_CATEGORIES);
+  const [reminderForm, setReminderForm] = useState<{ keys: string[]; templateId: string; message: string } | null>(null);
+  const [recurringForm, setRecurringForm] = useState<{ id?: string; name: string; type: RecurringTemplate['type']; amount: string; currency: Currency; category: string; cadence: RecurrenceCadence; intervalDays: string; startDate: string; endDate: string; autoPost: boolean } | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(() => {
+    const saved = JSON.parse(localStorage.getItem('sari_exchange_rates') || 'null');
+    return saved && saved.length ? saved : [{ id: 'RATE-DEFAULT', effectiveDate: '2000-01-01', rate: DEFAULT_EXCHANGE_RATE }];
+  });
+  const [newRateForm, setNewRateForm] = useState({ effectiveDate: getToday(), rate: '' });
+  const [refundForm, setRefundForm] = useState<{ saleId: string; amount: string; restock: boolean; lines: { itemId: string; name: string; quantity: string; max: number; unitNet: number; unitCost?: number }[] } | null>(null);
+  const [paymentForm, setPaymentForm] = useState<{ key: string; client: string; amount: string; currency: Currency; date: string } | null>(null);
+  const [passwordResetForm, setPasswordResetForm] = useState<{ userId: string; password: string; confirm: string } | null>(null);
+  const [installmentForm, setInstallmentForm] = useState<{ key: string; client: string; debtId: string; count: string; firstDueDate: string } | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState<ReportingCurrency>(() => (localStorage.getItem('sari_reporting_currency') as ReportingCurrency) || 'mixed');
+  const [invoiceCounter, setInvoiceCounter] = useState<number>(() => parseInt(localStorage.getItem('sari_invoice_counter') || '0') || 0);
+  const [receiptLayout, setReceiptLayout] = useState<ReceiptLayout>(() => (localStorage.getItem('sari_receipt_layout') as ReceiptLayout) || '80mm');
+  const [invoiceTx, setInvoiceTx] = useState<Transaction | null>(null);
+  const [lastPosSaleId, setLastPosSaleId] = useState<string | null>(null);
+  const [statementForm, setStatementForm] = useState<{ key: string; name: string; phone: string; start: string; end: string } | null>(null);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
 
   // --- Modals & Temp State ---
   const [editingItem, setEditingItem] = useState<Transaction | null>(null);
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; type: 'single' | 'all'; targetId?: string; targetName?: string; }>({ isOpen: false, type: 'single' });
   const [manualModalOpen, setManualModalOpen] = useState(false);
-  const [manualForm, setManualForm] = useState<{type: 'sale'|'expense'|'debt', client: string, phone: string, amount: string, itemId: string, description: string}>({ type: 'sale', client: '', phone: '', amount: '', itemId: '', description: '' });
+  const [manualForm, setManualForm] = useState<{type: 'sale'|'expense'|'debt', client: string, phone: string, amount: string, itemId: string, description: string, category: string, date: string, dueDate: string, rawText: string}>({ type: 'sale', client: '', phone: '', amount: '', itemId: '', description: '', category: '', date: getToday(), dueDate: '', rawText: '' });
   const [companySearch, setCompanySearch] = useState(''); 
   const [showCompanyList, setShowCompanyList] = useState(false);
   const [itemModalOpen, setItemModalOpen] = useState(false);
+  const [importWizard, setImportWizard] = useState<ImportWizardState | null>(null);
+  const [profileNameInput, setProfileNameInput] = useState('');
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
   const [newItemForm, setNewItemForm] = useState<InventoryItem>({ id: '', name: '', category: '', quantity: 0, minLevel: 5, price: 0, cost: 0 });
   
   // Drag and Drop State
@@ -283,21 +1697,84 @@ const App: React.FC = () => {
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const catalogueInputRef = useRef<HTMLInputElement>(null);
+  const barcodeImageInputRef = useRef<HTMLInputElement>(null);
 
   // --- Load Data ---
-  const loadData = useCallback(async () => {
+  // Concurrent calls (StrictMode runs the mount effect twice) share one load, so startup work such as recurring posting runs once
+  const loadInFlight = useRef<Promise<void> | null>(null);
+  const loadData = useCallback(() => {
+    if (!loadInFlight.current) loadInFlight.current = loadStores().finally(() => { loadInFlight.current = null; });
+    return loadInFlight.current;
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  const loadStores = async () => {
     try {
-      const txs = await dbOp(STORE_NAME, 'getAll');
+      let txs: Transaction[] = await dbOp(STORE_NAME, 'getAll');
       const inv = await dbOp(INVENTORY_STORE, 'getAll');
-      setTransactions(txs);
+      const batches = await dbOp(IMPORT_BATCH_STORE, 'getAll');
+      const savedCustomers: Customer[] = await dbOp(CUSTOMER_STORE, 'getAll');
+      const savedMovements: StockMovement[] = await dbOp(MOVEMENT_STORE, 'getAll');
+      const savedReminders: DebtReminder[] = await dbOp(REMINDER_STORE, 'getAll');
+      let savedRecurring: RecurringTemplate[] = await dbOp(RECURRING_STORE, 'getAll');
+      const categories: ExpenseCategory[] = JSON.parse(localStorage.getItem('sari_expense_categories') || 'null') || DEFAULT_EXPENSE_CATEGORIES;
+      const migrated = migrateCategoryNames(categories, txs, savedRecurring);
+      if (migrated.txs.length || migrated.templates.length) {
+          if (migrated.txs.length) await saveTransactions(migrated.txs);
+          if (migrated.templates.length) await saveRecurringRun([], migrated.templates);
+          const migratedById = new Map<string, Transaction | RecurringTemplate>([...migrated.txs, ...migrated.templates].map(r => [r.id, r]));
+          txs = txs.map(t => (migratedById.get(t.id) as Transaction) || t);
+          savedRecurring = savedRecurring.map(t => (migratedById.get(t.id) as RecurringTemplate) || t);
+      }
+      // Items that predate the ledger get an opening stocktake so their history reconciles from day one
+      const opening = (inv as InventoryItem[]).filter(i => i.quantity !== 0 && !savedMovements.some(m => m.itemId === i.id))
+          .map(i => ({ ...createMovement(i, i.quantity, 'stocktake', null), note: 'رصيد افتتاحي' }));
+      if (opening.length) await saveStockTransaction([], [], opening);
+      // Migrates the old free-text company list and links transactions that predate the directory, once;
+      // new imports are linked as they are saved
+      const needsLinking = !localStorage.getItem(CUSTOMER_LINK_FLAG_KEY);
+      const legacyCompanies: string[] = needsLinking ? JSON.parse(localStorage.getItem('sari_store_info') || '{}').knownCompanies || [] : [];
+      const { created, linked } = needsLinking ? linkCustomers(savedCustomers, txs, legacyCompanies) : { created: [], linked: [] };
+      if (created.length || linked.length) await saveCustomerLinks(created, linked);
+      if (needsLinking) localStorage.setItem(CUSTOMER_LINK_FLAG_KEY, 'done');
+      if (legacyCompanies.length) setStoreInfo(prev => ({ ...prev, knownCompanies: undefined }));
+      const linkedById = new Map(linked.map(t => [t.id, t]));
+      // Recurring occurrences that fell due since the app was last open
+      const { posted, updated } = runRecurringTemplates(savedRecurring, txs, getToday());
+      if (posted.length || updated.length) await saveRecurringRun(posted, updated);
+      const updatedById = new Map(updated.map(t => [t.id, t]));
+      setTransactions([...posted, ...txs.map(t => linkedById.get(t.id) || t)]);
       setInventory(inv);
+      setImportBatches(batches);
+      setCustomers([...savedCustomers, ...created]);
+      setMovements([...savedMovements, ...opening]);
+      setReminders(savedReminders);
+      setRecurring(savedRecurring.map(t => updatedById.get(t.id) || t));
     } catch (err) { console.error("DB Load Error", err); }
-  }, []);
+  };
 
+  useEffect(() => {
+    if (sessionChecked) return;
+    readSessionUser().then(user => { if (user) setCurrentUser(user); }).finally(() => setSessionChecked(true));
+  }, [sessionChecked]);
   useEffect(() => { if (isAuthenticated) loadData(); }, [loadData, isAuthenticated]);
+  // Expired sessions end even while the app stays open
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const t = setInterval(async () => { if (!(await readSession())) { setCurrentUser(null); setActiveTab('dashboard'); } }, 60000);
+    return () => clearInterval(t);
+  }, [isAuthenticated]);
   useEffect(() => { localStorage.setItem('sari_store_info', JSON.stringify(storeInfo)); }, [storeInfo]);
   useEffect(() => { localStorage.setItem('sari_items_per_page', itemsPerPage.toString()); }, [itemsPerPage]);
   useEffect(() => { localStorage.setItem('sari_inventory_alerts', inventoryAlerts.toString()); }, [inventoryAlerts]);
+  useEffect(() => { localStorage.setItem('sari_import_profiles', JSON.stringify(importProfiles)); }, [importProfiles]);
+  useEffect(() => { localStorage.setItem('sari_exchange_rates', JSON.stringify(exchangeRates)); }, [exchangeRates]);
+  useEffect(() => { localStorage.setItem('sari_reporting_currency', reportingCurrency); }, [reportingCurrency]);
+  useEffect(() => { localStorage.setItem('sari_invoice_counter', String(invoiceCounter)); }, [invoiceCounter]);
+  useEffect(() => { localStorage.setItem('sari_receipt_layout', receiptLayout); }, [receiptLayout]);
+  useEffect(() => { localStorage.setItem('sari_reminder_templates', JSON.stringify(reminderTemplates)); }, [reminderTemplates]);
+  useEffect(() => { localStorage.setItem('sari_expense_categories', JSON.stringify(expenseCategories)); }, [expenseCategories]);
   useEffect(() => { if(success || error) { const t = setTimeout(() => { setSuccess(false); setError(null); }, 3000); return () => clearTimeout(t); } }, [success, error]);
 
   // --- Logic: Dashboard Stats ---
@@ -315,7 +1792,7 @@ const App: React.FC = () => {
       let matchesType = true;
       if (activeTab === 'debts') matchesType = t.type === 'debt';
       else if (activeTab === 'transactions') {
-         matchesType = historyFilterType === 'all' ? true : historyFilterType === 'sale' ? (t.type === 'sale' || t.type === 'cash') : (t.type === 'expense' || t.type === 'refund');
+         matchesType = historyFilterType === 'all' ? true : historyFilterType === 'sale' ? (t.type === 'sale' || t.type === 'cash' || t.type === 'payment') : (t.type === 'expense' || t.type === 'refund');
       }
       return matchesSearch && matchesType;
     });
@@ -334,35 +1811,67 @@ const App: React.FC = () => {
     return result;
   }, [transactions, activeTab, searchTerm, searchQuery, historyFilterType, sortOption, historySortOption]);
 
+  // --- Logic: Currency Conversion (each transaction uses the rate in force on its own date) ---
+  const sortedRates = useMemo(() => [...exchangeRates].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)), [exchangeRates]);
+  const currentRate = useMemo(() => getRateForDate(sortedRates, getToday()), [sortedRates]);
+  // Charts need a single axis, so the mixed view plots everything converted to USD
+  const chartCurrency: Currency = reportingCurrency === 'mixed' ? 'USD' : reportingCurrency;
+  const toChartCurrency = useCallback((t: Transaction) => {
+    if (t.currency === chartCurrency) return t.amount;
+    const rate = getRateForDate(sortedRates, t.date).rate;
+    return chartCurrency === 'USD' ? t.amount / rate : t.amount * rate;
+  }, [sortedRates, chartCurrency]);
+  const addTransactionTo = useCallback((totals: MoneyTotals, t: Transaction, amount = t.amount) => addToTotals(totals, amount, t.currency, getRateForDate(sortedRates, t.date).rate), [sortedRates]);
+
+  const customersById = useMemo(() => new Map(customers.map(c => [c.id, c])), [customers]);
+  const getClientName = useCallback((t: Transaction) => (t.customerId && customersById.get(t.customerId)?.name) || t.client, [customersById]);
+  // Supplier purchases without a category are stock, not overheads, so they get their own slice
+  const getExpenseCategoryName = useCallback((t: Transaction) => findExpenseCategory(expenseCategories, t.category)?.name || (t.purchaseLines ? PURCHASES_LABEL : UNCATEGORISED_LABEL), [expenseCategories]);
+  const itemsById = useMemo(() => new Map(inventory.map(i => [i.id, i])), [inventory]);
+  const receiptFrameRef = useRef<HTMLIFrameElement>(null);
+  const statementFrameRef = useRef<HTMLIFrameElement>(null);
+  const refundsBySale = useMemo(() => {
+    const map = new Map<string, Transaction[]>();
+    transactions.forEach(t => { if (t.type === 'refund' && t.refundOf) map.set(t.refundOf, [...(map.get(t.refundOf) || []), t]); });
+    return map;
+  }, [transactions]);
+  const getRefundedAmount = useCallback((saleId: string) => (refundsBySale.get(saleId) || []).reduce((sum, r) => sum + r.amount, 0), [refundsBySale]);
+  const addCostTo = useCallback((totals: MoneyTotals, t: Transaction, usd: number) => addToTotals(totals, usd, 'USD', getRateForDate(sortedRates, t.date).rate), [sortedRates]);
+  const usdToChart = useCallback((usd: number, date: string) => chartCurrency === 'USD' ? usd : usd * getRateForDate(sortedRates, date).rate, [sortedRates, chartCurrency]);
+
   const dashboardStats = useMemo<DashboardStats>(() => {
-    let totalSalesUSD = 0;
-    let totalExpensesUSD = 0;
-    let totalDebt = 0;
+    const totalSales = emptyTotals();
+    const totalExpenses = emptyTotals();
+    const totalDebt = emptyTotals();
+    const costs = emptyTotals(); // COGS plus operating expenses; stock purchases are counted through COGS
     const dailyTotals = new Array(7).fill(0);
 
     filteredTransactions.forEach(t => {
-      const val = t.currency === 'IQD' ? t.amount / EXCHANGE_RATE : t.amount;
       if ((t.type === 'sale' || t.type === 'cash') && t.status === 'completed') {
-        totalSalesUSD += val;
+        addTransactionTo(totalSales, t);
+        if (t.type === 'sale') addCostTo(costs, t, getSaleCost(t, itemsById));
         const d = new Date(t.date);
-        if (!isNaN(d.getTime())) dailyTotals[d.getDay()] += val;
+        if (!isNaN(d.getTime())) dailyTotals[d.getDay()] += toChartCurrency(t);
+      } else if (t.type === 'refund' && t.status === 'completed') {
+        addTransactionTo(totalSales, t, -t.amount);
+        if (t.restocked) addCostTo(costs, t, -getSaleCost(t, itemsById));
       } else if (t.type === 'expense') {
-        totalExpensesUSD += val;
+        addTransactionTo(totalExpenses, t);
+        if (!t.purchaseLines) addTransactionTo(costs, t);
       } else if (t.type === 'debt' && t.status !== 'completed') {
-        totalDebt += val;
+        addTransactionTo(totalDebt, t, getOutstanding(t));
       }
     });
 
     return {
-      totalSalesUSD,
-      totalSalesIQD: totalSalesUSD * EXCHANGE_RATE,
-      netProfit: totalSalesUSD - totalExpensesUSD,
-      totalDebt: totalDebt * EXCHANGE_RATE,
-      totalExpenses: totalExpensesUSD,
+      totalSales,
+      netProfit: subtractTotals(totalSales, costs),
+      totalDebt,
+      totalExpenses,
       count: filteredTransactions.length,
       weeklyData: dailyTotals.map((val, idx) => ({ dayIndex: idx, total: val }))
     };
-  }, [filteredTransactions]);
+  }, [filteredTransactions, addTransactionTo, toChartCurrency, addCostTo, itemsById]);
 
   const reportStats = useMemo<ReportStats>(() => {
      const start = new Date(reportStartDate).getTime();
@@ -378,15 +1887,29 @@ const App: React.FC = () => {
         return matchesDate && matchesSearch;
      });
 
-     let revenue = 0, expenses = 0, pendingDebt = 0, collectedDebt = 0;
+     const revenue = emptyTotals(), expenses = emptyTotals(), operatingExpenses = emptyTotals(), cogs = emptyTotals();
+     const transactionsById = new Map(transactions.map(t => [t.id, t]));
+     let pendingDebt = 0, collectedDebt = 0;
      const dailyMap = new Map<string, { revenue: number, expenses: number }>();
      const expenseCategoryMap = new Map<string, number>();
-     const productMap = new Map<string, {amount: number, count: number}>();
-     const debtorMap = new Map<string, number>();
+     const productMap = new Map<string, {amount: number, count: number, cost: number}>();
+     const categoryMap = new Map<string, {amount: number, count: number, cost: number}>();
+     const addToProductMap = (map: typeof productMap, key: string, amount: number, count: number, cost: number) => {
+         const cur = map.get(key) || {amount: 0, count: 0, cost: 0};
+         map.set(key, { amount: cur.amount + amount, count: cur.count + count, cost: cur.cost + cost });
+     };
+     const debtorMap = new Map<string, { name: string; amount: MoneyTotals }>();
      const dayOfWeekMap = new Array(7).fill(0);
+     const ratesUsedMap = new Map<string, { effectiveDate: string; rate: number; count: number }>();
 
      filtered.forEach(t => {
-        const val = t.currency === 'IQD' ? t.amount / EXCHANGE_RATE : t.amount;
+        const val = toChartCurrency(t);
+        // Every amount converted for the charts and totals, whichever way it was converted
+        if (t.currency !== chartCurrency) {
+            const r = getRateForDate(sortedRates, t.date);
+            const used = ratesUsedMap.get(r.id) || { effectiveDate: r.effectiveDate, rate: r.rate, count: 0 };
+            ratesUsedMap.set(r.id, { ...used, count: used.count + 1 });
+        }
         const dateKey = t.date;
         const dayIndex = new Date(t.date).getDay();
 
@@ -394,26 +1917,60 @@ const App: React.FC = () => {
         const dayEntry = dailyMap.get(dateKey)!;
 
         if (t.type === 'sale' && t.status === 'completed') {
-             revenue += val;
+             addTransactionTo(revenue, t);
              dayEntry.revenue += val;
              
-             const cur = productMap.get(t.client) || {amount: 0, count: 0};
-             productMap.set(t.client, { amount: cur.amount + val, count: cur.count + 1});
+             // Spread the order total (after order discount) across its lines
+             const lines = getSaleCostLines(t, itemsById);
+             const gross = lines.reduce((sum, l) => sum + l.net, 0) || 1;
+             lines.forEach(l => {
+                 const amount = val * l.net / gross, cost = usdToChart(l.cost, t.date);
+                 addCostTo(cogs, t, l.cost);
+                 addToProductMap(productMap, l.name, amount, l.quantity, cost);
+                 addToProductMap(categoryMap, (l.itemId && itemsById.get(l.itemId)?.category) || 'غير مصنف', amount, l.quantity, cost);
+             });
              
              if(!isNaN(dayIndex)) dayOfWeekMap[dayIndex] += val;
+        } else if (t.type === 'refund' && t.status === 'completed') {
+            // Refunds are negative revenue; only goods put back on the shelf also reverse their cost
+            addTransactionTo(revenue, t, -t.amount);
+            dayEntry.revenue -= val;
+            const lines = t.saleLines?.length ? getSaleCostLines(t, itemsById) : [{ itemId: undefined, name: t.client, quantity: 0, net: t.amount, cost: 0 }];
+            const gross = lines.reduce((sum, l) => sum + l.net, 0) || 1;
+            lines.forEach(l => {
+                const cost = t.restocked ? l.cost : 0;
+                addCostTo(cogs, t, -cost);
+                addToProductMap(productMap, l.name, -val * l.net / gross, -l.quantity, -usdToChart(cost, t.date));
+                addToProductMap(categoryMap, (l.itemId && itemsById.get(l.itemId)?.category) || 'غير مصنف', -val * l.net / gross, -l.quantity, -usdToChart(cost, t.date));
+            });
         } else if (t.type === 'expense') {
-            expenses += val;
+            addTransactionTo(expenses, t);
+            if (!t.purchaseLines) addTransactionTo(operatingExpenses, t);
             dayEntry.expenses += val;
-            expenseCategoryMap.set(t.client, (expenseCategoryMap.get(t.client) || 0) + val);
+            const category = getExpenseCategoryName(t);
+            expenseCategoryMap.set(category, (expenseCategoryMap.get(category) || 0) + val);
         } else if (t.type === 'debt') {
             if (t.status === 'pending') {
-                pendingDebt += val;
-                debtorMap.set(t.client, (debtorMap.get(t.client) || 0) + val);
-            } else if (t.status === 'completed') {
+                pendingDebt += val * getOutstanding(t) / t.amount;
+                const debtor = debtorMap.get(getClientKey(t)) || { name: getClientName(t), amount: emptyTotals() };
+                addTransactionTo(debtor.amount, t, getOutstanding(t));
+                debtorMap.set(getClientKey(t), debtor);
+            } else if (t.status === 'completed' && t.paidAmount === undefined) {
+                // Settled before payments were recorded separately: the debt itself stands in for its payment
                 collectedDebt += val;
-                revenue += val; // Paid debt is revenue
+                addTransactionTo(revenue, t);
+                addCostTo(cogs, t, getSaleCost(t, itemsById));
                 dayEntry.revenue += val;
             }
+        } else if (t.type === 'payment') {
+            collectedDebt += val;
+            addTransactionTo(revenue, t); // Paid debt is revenue, booked on the day it was paid
+            dayEntry.revenue += val;
+            // Credit sales book their cost alongside the revenue: each payment carries its share of the debt's cost
+            t.allocations?.forEach(a => {
+                const debt = transactionsById.get(a.debtId);
+                if (debt && debt.amount > 0) addCostTo(cogs, t, getSaleCost(debt, itemsById) * a.amount / debt.amount);
+            });
         }
      });
 
@@ -421,6 +1978,10 @@ const App: React.FC = () => {
         .map(([name, data]) => ({ name, ...data }))
         .sort((a, b) => b.amount - a.amount)
         .slice(0, 5);
+     const toMargins = (map: typeof productMap): ProductMargin[] => Array.from(map.entries())
+        .map(([name, d]) => ({ name, revenue: d.amount, cost: d.cost, profit: d.amount - d.cost, margin: calculateMargin(d.amount, d.cost), count: d.count }))
+        .sort((a, b) => b.profit - a.profit);
+     const grossProfit = subtractTotals(revenue, cogs);
      
      // Build raw chart data
      const rawChartData = Array.from(dailyMap.entries())
@@ -438,9 +1999,8 @@ const App: React.FC = () => {
         .map(([name, value]) => ({ name, value }))
         .sort((a, b) => b.value - a.value);
 
-     const topDebtors = Array.from(debtorMap.entries())
-        .map(([name, amount]) => ({ name, amount }))
-        .sort((a, b) => b.amount - a.amount)
+     const topDebtors = Array.from(debtorMap.values())
+        .sort((a, b) => b.amount.converted.USD - a.amount.converted.USD)
         .slice(0, 5);
 
      const weeklyActivity = WEEK_DAYS.map((day, i) => ({ day, amount: dayOfWeekMap[i] }));
@@ -452,7 +2012,10 @@ const App: React.FC = () => {
      return {
         totalRevenue: revenue,
         totalExpenses: expenses,
-        netProfit: revenue - expenses,
+        operatingExpenses,
+        cogs,
+        grossProfit,
+        netProfit: subtractTotals(grossProfit, operatingExpenses),
         collectionRate: (collectedDebt + pendingDebt) > 0 ? (collectedDebt / (collectedDebt + pendingDebt)) * 100 : 0,
         atv: 0,
         topProducts,
@@ -460,12 +2023,32 @@ const App: React.FC = () => {
         dailyTrend: [],
         weeklyActivity,
         busiestDay: maxDayName,
-        composition: { cash: 0, debt: pendingDebt, expense: expenses },
+        composition: { cash: 0, debt: pendingDebt, expense: expenses.converted[chartCurrency] },
         chartData,
         pieData,
-        topDebtors
+        productMargins: toMargins(productMap),
+        categoryMargins: toMargins(categoryMap),
+        topDebtors,
+        ratesUsed: Array.from(ratesUsedMap.values()).sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
      };
-  }, [transactions, reportStartDate, reportEndDate, reportSearchTerm]);
+  }, [transactions, reportStartDate, reportEndDate, reportSearchTerm, toChartCurrency, addTransactionTo, chartCurrency, sortedRates, getClientName, getExpenseCategoryName, itemsById, addCostTo, usdToChart]);
+
+  // --- Budgets: a category's spending in one calendar month against its monthly budget ---
+  const getBudgetUsage = useCallback((month: string) => expenseCategories.filter(c => c.monthlyBudget > 0).map(category => {
+      const spent = emptyTotals();
+      transactions.filter(t => t.type === 'expense' && t.date.startsWith(month) && findExpenseCategory(expenseCategories, t.category)?.id === category.id).forEach(t => addTransactionTo(spent, t));
+      const actual = spent.converted[category.budgetCurrency];
+      return { category, actual, ratio: actual / category.monthlyBudget };
+  }), [expenseCategories, transactions, addTransactionTo]);
+  const budgetUsage = useMemo(() => getBudgetUsage(getToday().slice(0, 7)), [getBudgetUsage]);
+  const budgetWarnings = useMemo(() => budgetUsage.filter(b => b.ratio >= BUDGET_WARNING_RATIO).sort((a, b) => b.ratio - a.ratio), [budgetUsage]);
+  // The reports tab follows the month of the selected end date
+  const reportBudgetMonth = (reportEndDate || getToday()).slice(0, 7);
+  const reportBudgetUsage = useMemo(() => getBudgetUsage(reportBudgetMonth), [getBudgetUsage, reportBudgetMonth]);
+  const budgetChartData = useMemo(() => {
+      const toChart = (amount: number, currency: Currency) => currency === chartCurrency ? amount : currency === 'USD' ? amount * currentRate.rate : amount / currentRate.rate;
+      return reportBudgetUsage.map(b => ({ name: b.category.name, budget: Math.round(toChart(b.category.monthlyBudget, b.category.budgetCurrency)), actual: Math.round(toChart(b.actual, b.category.budgetCurrency)) }));
+  }, [reportBudgetUsage, chartCurrency, currentRate]);
 
   // --- Inventory Stats ---
   const inventoryStats = useMemo(() => {
@@ -475,19 +2058,140 @@ const App: React.FC = () => {
     return { totalItems, totalValue, lowStockCount };
   }, [inventory]);
 
+  const filteredInventory = useMemo(() => {
+    const q = inventorySearch.trim().toLowerCase();
+    if (!q) return inventory;
+    const exact = findItemByCode(inventory, q);
+    return exact ? [exact] : inventory.filter(i => i.name.toLowerCase().includes(q) || i.category.toLowerCase().includes(q) || normalizeCode(i.sku).includes(q) || normalizeCode(i.barcode).includes(q));
+  }, [inventory, inventorySearch]);
+
   // --- Debts Grouping ---
   const debtList = useMemo(() => {
-    const grouped = new Map<string, { total: number, lastDate: string, phone: string, count: number }>();
+    const today = getToday();
+    const grouped = new Map<string, { name: string, customerId?: string, total: MoneyTotals, lastDate: string, phone: string, count: number, debts: Transaction[], nextInstallment: (Installment & { currency: Currency }) | null, nextDueDate: string, overdueDays: number }>();
     transactions.filter(t => t.type === 'debt' && t.status === 'pending').forEach(t => {
-        const existing = grouped.get(t.client) || { total: 0, lastDate: t.date, phone: t.clientPhone || '', count: 0 };
-        existing.total += t.amount;
+        const customer = t.customerId ? customersById.get(t.customerId) : undefined;
+        const existing = grouped.get(getClientKey(t)) || { name: getClientName(t), customerId: t.customerId, total: emptyTotals(), lastDate: t.date, phone: customer?.phone || t.clientPhone || '', count: 0, debts: [], nextInstallment: null, nextDueDate: '', overdueDays: 0 };
+        addTransactionTo(existing.total, t, getOutstanding(t));
         existing.count += 1;
+        existing.debts.push(t);
         if(new Date(t.date) > new Date(existing.lastDate)) existing.lastDate = t.date;
-        if(t.clientPhone) existing.phone = t.clientPhone;
-        grouped.set(t.client, existing);
+        if(t.clientPhone && !customer?.phone) existing.phone = t.clientPhone;
+        const due = getInstallmentSchedule(t).find(i => !i.paid);
+        if (due && (!existing.nextInstallment || due.dueDate < existing.nextInstallment.dueDate)) existing.nextInstallment = { ...due, currency: t.currency };
+        if (hasAgreedDueDate(t)) {
+            const dueDate = getDebtDueDate(t);
+            if (!t.installmentPlan && (!existing.nextDueDate || dueDate < existing.nextDueDate)) existing.nextDueDate = dueDate;
+            existing.overdueDays = Math.max(existing.overdueDays, daysBetween(dueDate, today));
+        }
+        grouped.set(getClientKey(t), existing);
     });
-    return Array.from(grouped.entries()).map(([name, data]) => ({ name, ...data }));
-  }, [transactions]);
+    const paymentCounts = new Map<string, number>();
+    transactions.filter(t => t.type === 'payment').forEach(t => paymentCounts.set(getClientKey(t), (paymentCounts.get(getClientKey(t)) || 0) + 1));
+    return Array.from(grouped.entries()).map(([key, data]) => ({
+        key, ...data,
+        payments: paymentCounts.get(key) || 0,
+        overdue: data.overdueDays > 0
+    })).sort((a, b) => b.overdueDays - a.overdueDays);
+  }, [transactions, addTransactionTo, customersById, getClientName]);
+
+  // --- Debt Aging: outstanding balances by how far past their due date they are, as of today ---
+  const agingReport = useMemo(() => {
+    const today = getToday();
+    const newBuckets = () => Object.fromEntries(AGING_BUCKETS.map(b => [b.key, emptyTotals()])) as Record<AgingBucket, MoneyTotals>;
+    const clients = new Map<string, { name: string; buckets: Record<AgingBucket, MoneyTotals>; total: MoneyTotals }>();
+    const totals = newBuckets();
+    const total = emptyTotals();
+    transactions.filter(t => t.type === 'debt' && t.status === 'pending').forEach(t => {
+        const outstanding = getOutstanding(t);
+        if (outstanding <= 0) return;
+        const bucket = getAgingBucket(daysBetween(getDebtDueDate(t), today));
+        const entry = clients.get(getClientKey(t)) || { name: getClientName(t), buckets: newBuckets(), total: emptyTotals() };
+        addTransactionTo(entry.buckets[bucket], t, outstanding);
+        addTransactionTo(entry.total, t, outstanding);
+        addTransactionTo(totals[bucket], t, outstanding);
+        addTransactionTo(total, t, outstanding);
+        clients.set(getClientKey(t), entry);
+    });
+    const atRisk = (b: Record<AgingBucket, MoneyTotals>) => b.d60.converted.USD + b.d90.converted.USD + b.over90.converted.USD;
+    return {
+        clients: Array.from(clients.entries()).map(([key, c]) => ({ key, ...c }))
+            .sort((a, b) => atRisk(b.buckets) - atRisk(a.buckets) || b.total.converted.USD - a.total.converted.USD),
+        totals,
+        total
+    };
+  }, [transactions, addTransactionTo, getClientName]);
+
+  // Due occurrences of templates that wait for confirmation
+  const pendingRecurring = useMemo(() => {
+    const today = getToday();
+    return recurring.filter(tpl => tpl.active && !tpl.autoPost).flatMap(tpl => {
+        const done = getPostedRecurringDates(transactions, tpl.id);
+        return getRecurringOccurrences(tpl, today).filter(d => !done.has(d) && !tpl.skipDates.includes(d)).map(date => ({ tpl, date }));
+    }).sort((a, b) => a.date.localeCompare(b.date));
+  }, [recurring, transactions]);
+
+  const remindersByClient = useMemo(() => {
+    const map = new Map<string, DebtReminder[]>();
+    [...reminders].sort((a, b) => b.sentAt.localeCompare(a.sentAt)).forEach(r => map.set(r.clientKey, [...(map.get(r.clientKey) || []), r]));
+    return map;
+  }, [reminders]);
+
+  // --- Customer Profiles: balance, lifetime value and history per customer ---
+  const customerStats = useMemo(() => {
+    const stats = new Map<string, { balance: MoneyTotals; lifetime: MoneyTotals; payable: MoneyTotals; count: number; lastDate: string }>();
+    transactions.forEach(t => {
+        if (!t.customerId) return;
+        const entry = stats.get(t.customerId) || { balance: emptyTotals(), lifetime: emptyTotals(), payable: emptyTotals(), count: 0, lastDate: '' };
+        entry.count += 1;
+        if (t.date > entry.lastDate) entry.lastDate = t.date;
+        if (t.type === 'debt' && t.status === 'pending') addTransactionTo(entry.balance, t, getOutstanding(t));
+        if (t.type === 'expense' && t.status === 'pending') addTransactionTo(entry.payable, t); // unpaid supplier purchases
+        // Money actually received: completed sales, debt payments, and debts settled before payments were tracked
+        if ((t.type === 'sale' && t.status === 'completed') || t.type === 'payment' || (t.type === 'debt' && t.status === 'completed' && t.paidAmount === undefined)) addTransactionTo(entry.lifetime, t);
+        stats.set(t.customerId, entry);
+    });
+    return stats;
+  }, [transactions, addTransactionTo]);
+
+  // --- POS: catalogue prices are in USD; the cart is priced in the sale currency at today's rate ---
+  const posTotals = useMemo(() => {
+    const toSaleCurrency = (usd: number) => posCart.currency === 'USD' ? usd : Math.round(usd * currentRate.rate);
+    const lines = posCart.lines.flatMap(l => {
+        const item = inventory.find(i => i.id === l.itemId);
+        if (!item) return [];
+        const unitPrice = toSaleCurrency(item.price);
+        const discount = Math.min(parseFloat(l.discount) || 0, l.quantity * unitPrice);
+        return [{ ...l, item, unitPrice, discountValue: discount, total: l.quantity * unitPrice - discount }];
+    });
+    const subtotal = lines.reduce((sum, l) => sum + l.total, 0);
+    const orderDiscount = Math.min(parseFloat(posCart.orderDiscount) || 0, subtotal);
+    return { lines, subtotal, orderDiscount, total: subtotal - orderDiscount };
+  }, [posCart, inventory, currentRate]);
+
+  const posCustomer = useMemo(() => posCart.customer.trim() ? customers.find(c => normalizeCustomerName(c.name) === normalizeCustomerName(posCart.customer)) : undefined, [customers, posCart.customer]);
+
+  // Credit sales that would push the customer past their limit, measured in the limit's currency at today's rate
+  const posCreditWarning = useMemo(() => {
+    if (!posCart.onCredit || !posCustomer?.creditLimit) return null;
+    const currency = posCustomer.creditCurrency;
+    const balance = customerStats.get(posCustomer.id)?.balance.converted[currency] || 0;
+    const sale = posCart.currency === currency ? posTotals.total : currency === 'IQD' ? posTotals.total * currentRate.rate : posTotals.total / currentRate.rate;
+    const projected = balance + sale;
+    return projected > posCustomer.creditLimit ? { balance, projected, limit: posCustomer.creditLimit, currency } : null;
+  }, [posCart.onCredit, posCart.currency, posCustomer, customerStats, posTotals.total, currentRate]);
+
+  const posResults = useMemo(() => {
+    const q = posSearch.trim().toLowerCase();
+    if (!q) return [];
+    const exact = findItemByCode(inventory, q);
+    return [...(exact ? [exact] : []), ...inventory.filter(i => i !== exact && (i.name.toLowerCase().includes(q) || i.category.toLowerCase().includes(q) || normalizeCode(i.sku).includes(q) || normalizeCode(i.barcode).includes(q)))].slice(0, 8);
+  }, [inventory, posSearch]);
+
+  const filteredCustomers = useMemo(() => {
+    const q = normalizeCustomerName(customerSearch);
+    return customers.filter(c => !q || normalizeCustomerName(c.name).includes(q) || c.phone.includes(q)).sort((a, b) => a.name.localeCompare(b.name));
+  }, [customers, customerSearch]);
 
   const lowStockItems = useMemo(() => inventory.filter(i => i.quantity <= i.minLevel), [inventory]);
   const totalPages = useMemo(() => Math.ceil(filteredTransactions.length / itemsPerPage) || 1, [filteredTransactions.length, itemsPerPage]);
@@ -495,8 +2199,8 @@ const App: React.FC = () => {
   const validateEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
   const getTransactionName = (t: Transaction) => (!t.client || t.client === 'Imported' || t.client.trim() === '') ? `Process #${t.id.replace('TX-', '')}` : t.client;
   const calculateProfitMargin = () => {
-    if (dashboardStats.totalSalesUSD === 0) return 0;
-    const margin = (dashboardStats.netProfit / dashboardStats.totalSalesUSD) * 100;
+    if (dashboardStats.totalSales.converted.USD === 0) return 0;
+    const margin = (dashboardStats.netProfit.converted.USD / dashboardStats.totalSales.converted.USD) * 100;
     return Math.min(Math.max(margin, 0), 100); 
   };
   
@@ -505,81 +2209,443 @@ const App: React.FC = () => {
   const topProducts = useMemo(() => reportStats.topProducts.slice(0, 4), [reportStats]);
 
   // --- Actions ---
-  const handleAuthSubmit = (e: React.FormEvent) => {
+  const handleAuthSubmit = async (e: React.FormEvent) => {
     e.preventDefault(); 
     setAuthLoading(true); setAuthError('');
     
-    if (isSignUp) {
-        if (!signUpData.storeName || !signUpData.fullName || !signUpData.email || !signUpData.password) { setAuthError('يرجى ملء جميع الحقول الأساسية'); setAuthLoading(false); return; }
-        if (!validateEmail(signUpData.email)) { setAuthError('البريد الإلكتروني غير صالح'); setAuthLoading(false); return; }
-        if (signUpData.password.length < 6) { setAuthError('كلمة المرور يجب أن تكون 6 أحرف على الأقل'); setAuthLoading(false); return; }
-        
-        const userData = { ...signUpData };
-        localStorage.setItem('SARI_USER_DATA', JSON.stringify(userData));
-        setStoreInfo({ ...storeInfo, name: userData.storeName });
-        
-        localStorage.setItem('sari_auth_token', 'true');
-        setIsAuthenticated(true);
-    } else {
-        const storedUser = JSON.parse(localStorage.getItem('SARI_USER_DATA') || 'null');
-        const isValidUser = storedUser && storedUser.email === loginEmail && storedUser.password === loginPassword;
-        const isAdmin = loginEmail === 'admin' && loginPassword === '123456';
-        
-        if (isValidUser || isAdmin) {
-            localStorage.setItem('sari_auth_token', 'true');
-            setIsAuthenticated(true);
-        } else { setAuthError('بيانات الدخول غير صحيحة'); }
+    try {
+        if (isSignUp) {
+            // Sign-up only creates the store owner; further accounts are added from settings
+            if (users.length > 0) { setAuthError('يوجد حساب مالك لهذا المتجر. اطلب من المالك إضافتك'); return; }
+            if (!signUpData.storeName || !signUpData.fullName || !signUpData.email || !signUpData.password) { setAuthError('يرجى ملء جميع الحقول الأساسية'); return; }
+            if (!validateEmail(signUpData.email)) { setAuthError('البريد الإلكتروني غير صالح'); return; }
+            if (signUpData.password.length < 6) { setAuthError('كلمة المرور يجب أن تكون 6 أحرف على الأقل'); return; }
+
+            const { password, storeName, ...profile } = signUpData;
+            const owner: StoredUser = { ...profile, id: generateUserId(), role: 'owner', email: profile.email.trim().toLowerCase(), ...(await createPasswordRecord(password)) };
+            saveUsers([owner]);
+            setStoreInfo({ ...storeInfo, name: storeName });
+            
+            const saved = await writeSession(owner.id, rememberMe);
+            setUsers(saved);
+            setCurrentUser(saved.find(u => u.id === owner.id) || owner);
+        } else {
+            const email = loginEmail.trim().toLowerCase();
+            const storedUser = users.find(u => u.email.toLowerCase() === email) as (StoredUser & { password?: string }) | undefined;
+            let authenticated: StoredUser | null = null;
+            if (storedUser) {
+                if (storedUser.passwordHash) {
+                    if (await verifyPassword(loginPassword, storedUser)) authenticated = storedUser;
+                } else if (storedUser.password !== undefined && storedUser.password === loginPassword) {
+                    // Accounts created before hashing: upgrade the plaintext record on first successful login
+                    const { password: _legacy, ...rest } = storedUser;
+                    authenticated = { ...rest, ...(await createPasswordRecord(loginPassword)) };
+                    const updated = users.map(u => u.id === authenticated!.id ? authenticated! : u);
+                    saveUsers(updated);
+                    setUsers(updated);
+                }
+            }
+            
+            if (authenticated && isEncryptionEnabled()) {
+                if (!authenticated.wrappedKey) { setAuthError('البيانات مشفرة ولا يملك هذا الحساب مفتاحاً. اطلب من المالك إعادة تعيين كلمة المرور'); return; }
+                setDataKey(await unwrapDataKey(authenticated, loginPassword));
+            }
+
+            if (authenticated) {
+                const saved = await writeSession(authenticated.id, rememberMe);
+                setUsers(saved);
+                setLoginPassword('');
+                setCurrentUser(saved.find(u => u.id === authenticated!.id) || authenticated);
+            } else { setAuthError('بيانات الدخول غير صحيحة'); }
+        }
+    } catch (err) {
+        console.error("Auth error", err);
+        setAuthError('تعذر إكمال العملية، حاول مرة أخرى');
+    } finally {
+        setAuthLoading(false);
     }
-    setAuthLoading(false);
   };
 
-  const handleLogout = () => { setIsAuthenticated(false); localStorage.removeItem('sari_auth_token'); sessionStorage.removeItem('sari_auth_token'); setActiveTab('dashboard'); };
+  const handleLogout = () => {
+      setCurrentUser(null); clearSession(); setActiveTab('dashboard'); setSettingsTab('store');
+      // Drop the decrypted ledger from memory along with the key
+      setDataKey(null); setTransactions([]); setInventory([]); setImportBatches([]); setCustomers([]); setMovements([]); setReminders([]); setRecurring([]);
+  };
+
+  const updateUsers = (updated: StoredUser[]) => {
+      saveUsers(updated);
+      setUsers(updated);
+      const self = updated.find(u => u.id === currentUser?.id);
+      if (self) setCurrentUser(self);
+  };
+
+  const handlePasswordChange = async () => {
+      setPasswordError('');
+      if (!currentUser) return;
+      if (passwordForm.next.length < 6) { setPasswordError('كلمة المرور يجب أن تكون 6 أحرف على الأقل'); return; }
+      if (passwordForm.next !== passwordForm.confirm) { setPasswordError('كلمتا المرور غير متطابقتين'); return; }
+      if (!(await verifyPassword(passwordForm.current, currentUser))) { setPasswordError('كلمة المرور الحالية غير صحيحة'); return; }
+
+      const record = { ...(await createPasswordRecord(passwordForm.next)), ...(dataKey ? await wrapDataKey(dataKey, passwordForm.next) : {}) };
+      updateUsers(users.map(u => u.id === currentUser.id ? { ...u, ...record } : u));
+      setPasswordForm({ current: '', next: '', confirm: '' });
+      setSuccess(true);
+  };
+
+  const handleAddUser = async () => {
+      setUserFormError('');
+      if (!can('manageUsers')) return;
+      const email = newUserForm.email.trim().toLowerCase();
+      if (!newUserForm.fullName || !email || !newUserForm.password) { setUserFormError('يرجى ملء جميع الحقول'); return; }
+      if (!validateEmail(email)) { setUserFormError('البريد الإلكتروني غير صالح'); return; }
+      if (newUserForm.password.length < 6) { setUserFormError('كلمة المرور يجب أن تكون 6 أحرف على الأقل'); return; }
+      if (users.some(u => u.email.toLowerCase() === email)) { setUserFormError('البريد الإلكتروني مستخدم مسبقاً'); return; }
+
+      const user: StoredUser = {
+          id: generateUserId(), role: newUserForm.role, fullName: newUserForm.fullName, email, phone: '', countryCode: '+964',
+          ...(await createPasswordRecord(newUserForm.password)),
+          ...(dataKey ? await wrapDataKey(dataKey, newUserForm.password) : {})
+      };
+      updateUsers([...users, user]);
+      setNewUserForm({ fullName: '', email: '', password: '', role: 'cashier' });
+      setSuccess(true);
+  };
+
+  const handleUserRoleChange = (userId: string, role: UserRole) => {
+      if (!can('manageUsers')) return;
+      // The store must always keep at least one owner
+      if (role !== 'owner' && users.filter(u => u.role === 'owner' && u.id !== userId).length === 0) { setError('يجب أن يبقى مالك واحد على الأقل'); return; }
+      updateUsers(users.map(u => u.id === userId ? { ...u, role } : u));
+  };
+
+  // Owners open a password reset for another account, which that user types in themselves;
+  // this is also how accounts get access to encrypted data
+  const handleResetUserPassword = async () => {
+      const user = passwordResetForm && users.find(u => u.id === passwordResetForm.userId);
+      if (!passwordResetForm || !user || !can('manageUsers')) return;
+      const { password, confirm } = passwordResetForm;
+      if (password.length < 6) { setError('كلمة المرور يجب أن تكون 6 أحرف على الأقل'); return; }
+      if (password !== confirm) { setError('كلمتا المرور غير متطابقتين'); return; }
+      const record = { ...(await createPasswordRecord(password)), ...(dataKey ? await wrapDataKey(dataKey, password) : {}) };
+      updateUsers(users.map(u => u.id === user.id ? { ...u, ...record } : u));
+      setPasswordResetForm(null);
+      setSuccess(true);
+  };
+
+  const handleToggleEncryption = async () => {
+      setEncryptionError('');
+      if (!currentUser || !can('manageSettings')) return;
+      if (!(await verifyPassword(encryptionPassword, currentUser))) { setEncryptionError('كلمة المرور غير صحيحة'); return; }
+
+      setEncryptionBusy(true);
+      const previousKey = dataKey;
+      const previousUsers = users;
+      try {
+          const plain = await readAllStores(DATA_STORES);
+          if (!encryptionEnabled) {
+              const key = await generateDataKey();
+              // Key and flag are persisted before the data is rewritten: plain records stay readable if the migration fails.
+              // Other accounts get their key when an owner resets their password.
+              const wrap = await wrapDataKey(key, encryptionPassword);
+              updateUsers(users.map(u => u.id === currentUser.id ? { ...u, ...wrap } : { ...u, wrappedKey: undefined, keySalt: undefined }));
+              localStorage.setItem(ENCRYPTION_FLAG_KEY, 'enabled');
+              setDataKey(key);
+              await restoreStores(plain, 'replace');
+              setEncryptionEnabled(true);
+          } else {
+              setDataKey(null);
+              await restoreStores(plain, 'replace');
+              localStorage.removeItem(ENCRYPTION_FLAG_KEY);
+              updateUsers(users.map(u => ({ ...u, wrappedKey: undefined, keySalt: undefined })));
+              setEncryptionEnabled(false);
+          }
+          setEncryptionPassword('');
+          setSuccess(true);
+      } catch (err) {
+          console.error("Encryption migration error", err);
+          setDataKey(previousKey);
+          updateUsers(previousUsers);
+          if (encryptionEnabled) localStorage.setItem(ENCRYPTION_FLAG_KEY, 'enabled');
+          else localStorage.removeItem(ENCRYPTION_FLAG_KEY);
+          setEncryptionError('فشل تحويل البيانات، لم يتم تغيير أي شيء');
+      } finally {
+          setEncryptionBusy(false);
+      }
+  };
+
+  const handleDeleteUser = (user: StoredUser) => {
+      if (!can('manageUsers') || user.id === currentUser?.id) return;
+      if (confirm(`هل أنت متأكد من حذف المستخدم ${user.fullName}؟`)) updateUsers(users.filter(u => u.id !== user.id));
+  };
+
+  // Sales and debts always go to a directory entry; typing a new name adds the customer
+  const resolveCustomer = async (name: string, phone = '') => {
+      if (!name.trim()) return undefined;
+      const existing = customers.find(c => normalizeCustomerName(c.name) === normalizeCustomerName(name));
+      if (existing) return existing;
+      const created = createCustomer(name, phone);
+      await dbOp(CUSTOMER_STORE, 'put', created);
+      setCustomers(prev => [...prev, created]);
+      return created;
+  };
 
   const handleManualTransaction = async () => {
-      const { type, client, phone, amount, itemId, description } = manualForm;
+      const { type, client, phone, amount, itemId, description, category, date, dueDate, rawText } = manualForm;
       const finalClient = type === 'expense' ? description : (companySearch || client); 
       const val = parseFloat(amount);
       if (!val || val <= 0) return;
 
+      const customer = type !== 'expense' ? await resolveCustomer(finalClient, phone) : undefined;
+      // An explicit due date wins; otherwise the customer's default terms apply from the debt's date
+      const expenseCategory = type !== 'expense' || category === UNCATEGORISED_CHOICE ? undefined : category || suggestExpenseCategory(expenseCategories, description)?.id;
+      const debtDueDate = type !== 'debt' ? undefined : dueDate || (customer?.paymentTermsDays !== undefined ? addDays(date || getToday(), customer.paymentTermsDays) : undefined);
+
       const newTx: Transaction = {
           id: generateId(), type: type === 'expense' ? 'expense' : type === 'debt' ? 'debt' : 'sale',
-          client: finalClient, clientPhone: phone, itemId: itemId, amount: val,
+          client: customer?.name || finalClient, clientPhone: phone || customer?.phone, customerId: customer?.id, itemId: itemId, amount: val,
           currency: storeInfo.currencySymbol === '$' ? 'USD' : 'IQD',
-          date: new Date().toISOString().split('T')[0],
+          date: date || getToday(),
           time: new Date().toLocaleTimeString('en-US', {hour: '2-digit', minute:'2-digit'}),
-          status: type === 'debt' ? 'pending' : 'completed', method: 'Manual'
+          status: type === 'debt' ? 'pending' : 'completed', method: rawText ? 'OCR' : 'Manual',
+          ...(rawText ? { rawText } : {}),
+          ...(debtDueDate ? { dueDate: debtDueDate } : {}),
+          ...(expenseCategory ? { category: expenseCategory } : {})
       };
 
-      if ((type === 'sale' || type === 'debt') && itemId) {
-          const item = inventory.find(i => i.id === itemId);
-          if (item) {
-              const updatedItem = { ...item, quantity: item.quantity - 1 };
-              await dbOp(INVENTORY_STORE, 'put', updatedItem);
-              setInventory(prev => prev.map(i => i.id === itemId ? updatedItem : i));
-          }
-      }
+      const item = (type === 'sale' || type === 'debt') && itemId ? inventory.find(i => i.id === itemId) : undefined;
+      if (item) newTx.itemCost = item.cost;
+      const updatedItem = item ? { ...item, quantity: item.quantity - 1 } : undefined;
+      const movement = updatedItem ? createMovement(updatedItem, -1, 'sale', currentUser, newTx.id) : undefined;
 
-      await dbOp(STORE_NAME, 'put', newTx);
+      await saveStockTransaction([newTx], updatedItem ? [updatedItem] : [], movement ? [movement] : []);
+      if (updatedItem) setInventory(prev => prev.map(i => i.id === itemId ? updatedItem : i));
+      if (movement) setMovements(prev => [...prev, movement]);
       setTransactions(prev => [newTx, ...prev]);
       setManualModalOpen(false);
-      setManualForm({ type: 'sale', client: '', phone: '', amount: '', itemId: '', description: '' });
+      setManualForm({ type: 'sale', client: '', phone: '', amount: '', itemId: '', description: '', category: '', date: getToday(), dueDate: '', rawText: '' });
       setCompanySearch('');
       setSuccess(true);
   };
   
+  // Item quantities and ledger entries that bring stock in line when a transaction changes from `before` to `after`
+  const rebalanceStock = (before: Transaction | null | undefined, after: Transaction | null, note: string) => {
+      const oldUsage = getStockUsage(before), newUsage = getStockUsage(after);
+      const oldValues = getPurchaseValues(before, sortedRates), newValues = getPurchaseValues(after, sortedRates);
+      const txId = (after || before)?.id;
+      const updatedItems: InventoryItem[] = [];
+      const newMovements: StockMovement[] = [];
+      new Set([...oldUsage.keys(), ...newUsage.keys(), ...oldValues.keys(), ...newValues.keys()]).forEach(itemId => {
+          const delta = (newUsage.get(itemId) || 0) - (oldUsage.get(itemId) || 0);
+          const item = inventory.find(i => i.id === itemId);
+          if (!item) return;
+          // Received units and their value leave (or re-enter) the weighted average the same way handlePurchaseSave added them
+          const receivedDelta = (newValues.get(itemId)?.quantity || 0) - (oldValues.get(itemId)?.quantity || 0);
+          const valueDelta = (newValues.get(itemId)?.value || 0) - (oldValues.get(itemId)?.value || 0);
+          const onHand = Math.max(item.quantity, 0);
+          const cost = (receivedDelta || valueDelta) && onHand + receivedDelta > 0
+              ? Math.max(Math.round((onHand * (item.cost || 0) + valueDelta) / (onHand + receivedDelta) * 100) / 100, 0)
+              : item.cost;
+          if (!delta && cost === item.cost) return;
+          const updated = { ...item, quantity: item.quantity - delta, cost };
+          updatedItems.push(updated);
+          if (delta) newMovements.push(createMovement(updated, -delta, delta < 0 ? 'return' : 'adjustment', currentUser, txId, note));
+      });
+      return { updatedItems, newMovements };
+  };
+
+  const isDebtAllocated = (debtId: string) => transactions.some(t => t.allocations?.some(a => a.debtId === debtId));
+
+  const applyStockChanges = (updatedItems: InventoryItem[], newMovements: StockMovement[]) => {
+      if (!updatedItems.length) return;
+      setInventory(prev => prev.map(i => updatedItems.find(u => u.id === i.id) || i));
+      setMovements(prev => [...prev, ...newMovements]);
+  };
+
   const handleEditSave = async () => {
-      if (!editingItem) return;
-      if (editingItem.amount <= 0) return;
-      const updatedTx = { ...editingItem };
-      await dbOp(STORE_NAME, 'put', updatedTx);
+      if (!editingItem || !can('editTransactions')) return;
+      if (!editingItem.amount || editingItem.amount <= 0) return;
+      const original = transactions.find(t => t.id === editingItem.id);
+      // Allocations tie a payment's amount to the debts it settled; changing either side would leave them out of step
+      if (original?.allocations?.length && (editingItem.type !== original.type || editingItem.amount !== original.amount || editingItem.currency !== original.currency)) {
+          setError('لتغيير مبلغ الدفعة احذفها وسجّلها من جديد'); return;
+      }
+      if (editingItem.type === 'debt' && editingItem.amount < (original?.paidAmount || 0)) {
+          setError(`تم تسديد ${formatCurrency(original!.paidAmount!, original!.currency)} من هذا الدين، لا يمكن أن يقل المبلغ عنه`); return;
+      }
+      if (original?.type === 'debt' && isDebtAllocated(original.id) && (editingItem.type !== 'debt' || editingItem.currency !== original.currency)) {
+          setError('احذف الدفعات المسجلة على هذا الدين أولاً'); return;
+      }
+      const customer = editingItem.type !== 'expense' && normalizeCustomerName(editingItem.client) !== normalizeCustomerName(original ? getClientName(original) : '')
+          ? await resolveCustomer(editingItem.client, editingItem.clientPhone)
+          : undefined;
+      const updatedTx: Transaction = {
+          ...editingItem,
+          ...(customer ? { client: customer.name, customerId: customer.id } : {}),
+          ...(editingItem.type === 'expense' && !editingItem.purchaseLines ? { customerId: undefined } : {}),
+          ...(editingItem.type === 'sale' || editingItem.type === 'debt' ? {} : { itemId: undefined, itemCost: undefined }),
+          dueDate: editingItem.type === 'debt' && editingItem.dueDate ? editingItem.dueDate : undefined,
+          category: editingItem.type === 'expense' && editingItem.category ? editingItem.category : undefined,
+          // Switching the sold item takes that item's current cost
+          ...(editingItem.itemId && editingItem.itemId !== original?.itemId ? { itemCost: inventory.find(i => i.id === editingItem.itemId)?.cost } : {})
+      };
+      const { updatedItems, newMovements } = rebalanceStock(original, updatedTx, `تعديل العملية ${updatedTx.id}`);
+      await saveStockTransaction([updatedTx], updatedItems, newMovements);
       setTransactions(prev => prev.map(t => t.id === updatedTx.id ? updatedTx : t));
+      applyStockChanges(updatedItems, newMovements);
       setEditingItem(null); setSuccess(true);
   };
 
+  // Line quantity edits keep the transaction total in step with its lines
+  const handleEditLineQuantity = (kind: 'saleLines' | 'purchaseLines', idx: number, quantity: number) => {
+      if (!editingItem) return;
+      if (kind === 'saleLines' && editingItem.saleLines) {
+          const saleLines = editingItem.saleLines.map((l, i) => i === idx ? { ...l, quantity } : l);
+          const amount = saleLines.reduce((sum, l) => sum + l.quantity * l.unitPrice - l.discount, 0) - (editingItem.orderDiscount || 0);
+          setEditingItem({ ...editingItem, saleLines, amount: Math.max(amount, 0) });
+      } else if (kind === 'purchaseLines' && editingItem.purchaseLines) {
+          const purchaseLines = editingItem.purchaseLines.map((l, i) => i === idx ? { ...l, quantity } : l);
+          setEditingItem({ ...editingItem, purchaseLines, amount: purchaseLines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0) });
+      }
+  };
+
+  // --- Invoices & Receipts ---
+  // Numbers are handed out once per transaction; the counter never goes backwards, so deleting an invoice leaves a gap rather than reusing its number
+  const openInvoice = async (t: Transaction) => {
+      if (t.invoiceNumber) { setInvoiceTx(t); return; }
+      const invoiceNumber = Math.max(invoiceCounter, ...transactions.map(x => x.invoiceNumber || 0)) + 1;
+      const issued = { ...t, invoiceNumber };
+      await dbOp(STORE_NAME, 'put', issued);
+      setInvoiceCounter(invoiceNumber);
+      setTransactions(prev => prev.map(x => x.id === issued.id ? issued : x));
+      setInvoiceTx(issued);
+  };
+
+  const handleInvoicePdf = async () => {
+      const body = receiptFrameRef.current?.contentDocument?.body;
+      if (!invoiceTx || !body) return;
+      setIsExportingPdf(true);
+      try {
+          await downloadDocumentPdf(body, receiptLayout, `${formatInvoiceNumber(invoiceTx.invoiceNumber || 0)}.pdf`);
+      } catch (err) {
+          console.error("PDF export error", err);
+          setError("فشل إنشاء ملف PDF");
+      } finally {
+          setIsExportingPdf(false);
+      }
+  };
+
+  // --- Client Statements ---
+  const statementSections = useMemo(() => statementForm ? buildClientStatement(transactions, statementForm.key, statementForm.start, statementForm.end) : [], [statementForm, transactions]);
+
+  const openStatement = (key: string, name: string, phone: string) => {
+      const dates = transactions.filter(t => (t.type === 'debt' || t.type === 'payment') && getClientKey(t) === key).map(t => t.date).sort();
+      setStatementForm({ key, name, phone, start: dates[0] || getStartOfMonth(), end: getToday() });
+  };
+
+  const statementFileName = (ext: string) => `Statement_${statementForm?.name.replace(/[\\/:*?"<>|\s]+/g, '_')}_${statementForm?.start}_${statementForm?.end}.${ext}`;
+
+  const handleStatementPdf = async () => {
+      const body = statementFrameRef.current?.contentDocument?.body;
+      if (!statementForm || !body) return;
+      setIsExportingPdf(true);
+      try {
+          await downloadDocumentPdf(body, 'a4', statementFileName('pdf'));
+      } catch (err) {
+          console.error("PDF export error", err);
+          setError("فشل إنشاء ملف PDF");
+      } finally {
+          setIsExportingPdf(false);
+      }
+  };
+
+  const handleStatementXlsx = () => {
+      if (!statementForm) return;
+      const rows: (string | number)[][] = [
+          [storeInfo.name], ['كشف حساب', statementForm.name, statementForm.phone], ['من', statementForm.start, 'إلى', statementForm.end], []
+      ];
+      statementSections.forEach(s => {
+          rows.push([`العملة: ${s.currency}`], ['التاريخ', 'المرجع', 'البيان', 'مدين', 'دائن', 'الرصيد']);
+          rows.push([statementForm.start, '', 'الرصيد الافتتاحي', '', '', s.opening]);
+          s.rows.forEach(r => rows.push([r.date, r.reference, r.description, r.debit || '', r.credit || '', r.balance]));
+          rows.push([statementForm.end, '', 'الرصيد الختامي', '', '', s.closing], []);
+      });
+      const wb = utils.book_new();
+      utils.book_append_sheet(wb, utils.aoa_to_sheet(rows), "Statement");
+      wb.Workbook = { Views: [{ RTL: true }] };
+      writeFile(wb, statementFileName('xlsx'));
+  };
+
+  // --- Refunds ---
+  const openRefund = (sale: Transaction) => {
+      if (!can('issueRefunds')) return;
+      const refundable = sale.amount - getRefundedAmount(sale.id);
+      if (refundable <= 0) { setError('تم استرجاع هذه العملية بالكامل'); return; }
+      const returned = new Map<string, number>();
+      (refundsBySale.get(sale.id) || []).forEach(r => r.saleLines?.forEach(l => returned.set(l.itemId, (returned.get(l.itemId) || 0) + l.quantity)));
+      // Unit prices net of line and order discounts, so refunding every unit gives back exactly what was paid
+      const gross = sale.saleLines?.reduce((sum, l) => sum + l.quantity * l.unitPrice - l.discount, 0) || 0;
+      const orderShare = gross > 0 ? sale.amount / gross : 1;
+      const lines = sale.saleLines?.length
+          ? sale.saleLines.map(l => ({ itemId: l.itemId, name: l.name, quantity: '', max: l.quantity - (returned.get(l.itemId) || 0), unitNet: (l.quantity * l.unitPrice - l.discount) / l.quantity * orderShare, unitCost: l.unitCost }))
+          : sale.itemId ? [{ itemId: sale.itemId, name: sale.client, quantity: '', max: 1 - (returned.get(sale.itemId) || 0), unitNet: sale.amount, unitCost: sale.itemCost }] : [];
+      // Imported sales never took stock out, so their returns can't put any back
+      setRefundForm({ saleId: sale.id, amount: '', restock: !sale.importBatchId, lines: lines.filter(l => l.max > 0) });
+  };
+
+  const handleRefundLineQuantity = (idx: number, quantity: string) => {
+      if (!refundForm) return;
+      const lines = refundForm.lines.map((l, i) => i === idx ? { ...l, quantity } : l);
+      const amount = lines.reduce((sum, l) => sum + (parseFloat(l.quantity) || 0) * l.unitNet, 0);
+      setRefundForm({ ...refundForm, lines, amount: amount ? String(Math.round(amount * 100) / 100) : '' });
+  };
+
+  const handleRefundSave = async () => {
+      const sale = refundForm && transactions.find(t => t.id === refundForm.saleId);
+      if (!refundForm || !sale || !can('issueRefunds')) return;
+      const amount = parseFloat(refundForm.amount);
+      const refundable = sale.amount - getRefundedAmount(sale.id);
+      if (!amount || amount <= 0) return;
+      if (amount > refundable + 0.01) { setError(`لا يمكن استرجاع أكثر من ${formatCurrency(refundable, sale.currency)}`); return; }
+      const lines = refundForm.lines.map(l => ({ ...l, qty: parseFloat(l.quantity) || 0 })).filter(l => l.qty > 0);
+      const over = lines.find(l => l.qty > l.max);
+      if (over) { setError(`الكمية المرتجعة من ${over.name} أكبر من المباعة (${over.max})`); return; }
+
+      const refund: Transaction = {
+          id: generateId(), type: 'refund', client: sale.client, clientPhone: sale.clientPhone, customerId: sale.customerId,
+          date: getToday(), time: new Date().toLocaleTimeString('en-US', {hour: '2-digit', minute:'2-digit'}),
+          amount, currency: sale.currency, status: 'completed', method: 'Refund', refundOf: sale.id,
+          ...(lines.length ? {
+              saleLines: lines.map(l => ({ itemId: l.itemId, name: l.name, quantity: l.qty, unitPrice: l.unitNet, discount: 0, unitCost: l.unitCost })),
+              restocked: refundForm.restock && !sale.importBatchId
+          } : {})
+      };
+      const updatedItems: InventoryItem[] = [];
+      const newMovements: StockMovement[] = [];
+      if (refund.restocked) lines.forEach(l => {
+          const item = inventory.find(i => i.id === l.itemId);
+          if (!item) return;
+          const updated = { ...item, quantity: item.quantity + l.qty };
+          updatedItems.push(updated);
+          newMovements.push(createMovement(updated, l.qty, 'return', currentUser, refund.id, `مرتجع من ${sale.id}`));
+      });
+      await saveStockTransaction([refund], updatedItems, newMovements);
+      setTransactions(prev => [refund, ...prev]);
+      applyStockChanges(updatedItems, newMovements);
+      setRefundForm(null);
+      setSuccess(true);
+  };
+
   const handleInventorySave = async () => {
-      if (!newItemForm.name || newItemForm.price <= 0) return;
-      const item = { ...newItemForm, id: newItemForm.id || generateItemId() };
-      await dbOp(INVENTORY_STORE, 'put', item);
+      if (!can('manageInventory') || !newItemForm.name || newItemForm.price <= 0) return;
+      const item = { ...newItemForm, id: newItemForm.id || generateItemId(), sku: newItemForm.sku?.trim() || undefined, barcode: newItemForm.barcode?.trim() || undefined };
+      const conflict = findCodeConflict(inventory, item);
+      if (conflict) { setError(`الرمز أو الباركود مستخدم للمنتج ${conflict.name}`); return; }
+      // Quantity edits from the item form are logged as adjustments (or the opening count for new items)
+      const previous = inventory.find(i => i.id === item.id);
+      const change = item.quantity - (previous?.quantity || 0);
+      const movement = change !== 0 ? createMovement(item, change, previous ? 'adjustment' : 'stocktake', currentUser, undefined, previous ? undefined : 'رصيد افتتاحي') : undefined;
+      await saveStockTransaction([], [item], movement ? [movement] : []);
+      if (movement) setMovements(prev => [...prev, movement]);
       setInventory(prev => {
           const idx = prev.findIndex(i => i.id === item.id);
           if (idx >= 0) { const copy = [...prev]; copy[idx] = item; return copy; }
@@ -589,145 +2655,362 @@ const App: React.FC = () => {
       setNewItemForm({ id: '', name: '', category: '', quantity: 0, minLevel: 5, price: 0, cost: 0 });
   };
 
+  // Manual stock changes from the history panel: stocktake takes the counted quantity, other reasons a signed delta
+  const handleStockAdjust = async () => {
+      const item = inventory.find(i => i.id === stockHistoryItemId);
+      const value = parseFloat(adjustForm.quantity);
+      if (!item || !can('manageInventory') || isNaN(value)) return;
+      let change = adjustForm.reason === 'stocktake' ? value - item.quantity : value;
+      if (adjustForm.reason === 'damage') change = -Math.abs(change);
+      if (adjustForm.reason === 'return') change = Math.abs(change);
+      if (change === 0) return;
+      const updated = { ...item, quantity: item.quantity + change };
+      const movement = createMovement(updated, change, adjustForm.reason, currentUser, undefined, adjustForm.note.trim() || undefined);
+      await saveStockTransaction([], [updated], [movement]);
+      setInventory(prev => prev.map(i => i.id === updated.id ? updated : i));
+      setMovements(prev => [...prev, movement]);
+      setAdjustForm({ reason: 'stocktake', quantity: '', note: '' });
+      setSuccess(true);
+  };
+
   const handleDeleteInventory = async (id: string) => {
-      if (confirm('هل أنت متأكد من حذف هذا المنتج؟')) {
+      if (can('manageInventory') && confirm('هل أنت متأكد من حذف هذا المنتج؟')) {
           await dbOp(INVENTORY_STORE, 'delete', id);
           setInventory(prev => prev.filter(i => i.id !== id));
       }
   };
   
-  const handleAddCompany = () => {
-      if(newCompany && !storeInfo.knownCompanies.includes(newCompany)) {
-          setStoreInfo(prev => ({ ...prev, knownCompanies: [...prev.knownCompanies, newCompany] }));
-          setNewCompany('');
+  const handleAddRate = () => {
+      const rate = parseFloat(newRateForm.rate);
+      if (!can('manageSettings') || !newRateForm.effectiveDate || !rate || rate <= 0) return;
+      // One rate per effective date: re-entering a date corrects it
+      setExchangeRates(prev => [...prev.filter(r => r.effectiveDate !== newRateForm.effectiveDate), { id: `RATE-${Date.now()}`, effectiveDate: newRateForm.effectiveDate, rate }]);
+      setNewRateForm({ effectiveDate: getToday(), rate: '' });
+      setSuccess(true);
+  };
+
+  const handleDeleteRate = (id: string) => {
+      if (!can('manageSettings') || exchangeRates.length <= 1) return;
+      setExchangeRates(prev => prev.filter(r => r.id !== id));
+  };
+
+  const handleCustomerSave = async () => {
+      if (!customerForm || !can('editTransactions') || !customerForm.name.trim()) return;
+      const name = customerForm.name.trim().replace(/\s+/g, ' ');
+      if (customers.some(c => c.id !== customerForm.id && normalizeCustomerName(c.name) === normalizeCustomerName(name))) {
+          setError('يوجد عميل بنفس الاسم، استخدم الدمج بدلاً من ذلك'); return;
       }
+      const customer: Customer = { ...customerForm, id: customerForm.id || generateCustomerId(), name };
+      await dbOp(CUSTOMER_STORE, 'put', customer);
+      setCustomers(prev => prev.some(c => c.id === customer.id) ? prev.map(c => c.id === customer.id ? customer : c) : [...prev, customer]);
+      setCustomerForm(customer);
+      setSuccess(true);
   };
-  
-  const handleDeleteCompany = (name: string) => {
-      setStoreInfo(prev => ({ ...prev, knownCompanies: prev.knownCompanies.filter(c => c !== name) }));
+
+  const handleCustomerDelete = async (customer: Customer) => {
+      if (!can('deleteTransactions')) return;
+      if (transactions.some(t => t.customerId === customer.id)) { setError('لا يمكن حذف عميل لديه عمليات، استخدم الدمج'); return; }
+      if (!confirm(`هل أنت متأكد من حذف ${customer.name}؟`)) return;
+      await dbOp(CUSTOMER_STORE, 'delete', customer.id);
+      setCustomers(prev => prev.filter(c => c.id !== customer.id));
+      setCustomerForm(null);
   };
 
-  const handleSettleClientDebt = async (clientName: string) => {
-      if(confirm(`هل تريد تسوية جميع ديون ${clientName}؟`)) {
-          const clientTxs = transactions.filter(t => t.client === clientName && t.type === 'debt' && t.status === 'pending');
-          const updatedTxs = clientTxs.map(t => ({ ...t, status: 'completed' as TransactionStatus, date: getToday() })); // Mark as Paid today
-          
-          for(const t of updatedTxs) { await dbOp(STORE_NAME, 'put', t); }
-          setTransactions(prev => prev.map(t => {
-              const updated = updatedTxs.find(u => u.id === t.id);
-              return updated || t;
-          }));
+  // Moves every transaction of the duplicate onto the kept customer, fills its blank fields, then drops the duplicate
+  const handleMergeCustomers = async () => {
+      const target = customerForm && customers.find(c => c.id === customerForm.id);
+      const source = customers.find(c => c.id === mergeSourceId);
+      if (!target || !source || source.id === target.id || !can('editTransactions')) return;
+      if (!confirm(`دمج "${source.name}" في "${target.name}"؟ ستنتقل جميع عملياته ولا يمكن التراجع.`)) return;
+      const moved = transactions.filter(t => t.customerId === source.id).map(t => ({ ...t, customerId: target.id }));
+      const merged: Customer = {
+          ...target,
+          phone: target.phone || source.phone,
+          address: target.address || source.address,
+          notes: [target.notes, source.notes].filter(Boolean).join('\n'),
+          creditLimit: target.creditLimit || source.creditLimit,
+          paymentTermsDays: target.paymentTermsDays ?? source.paymentTermsDays
+      };
+      await saveCustomerLinks([merged], moved, [source.id]);
+      setTransactions(prev => prev.map(t => moved.find(m => m.id === t.id) || t));
+      setCustomers(prev => prev.filter(c => c.id !== source.id).map(c => c.id === merged.id ? merged : c));
+      setCustomerForm(merged);
+      setMergeSourceId('');
+      setSuccess(true);
+  };
+
+  const handlePosAdd = (item: InventoryItem) => {
+      setPosCart(prev => prev.lines.some(l => l.itemId === item.id)
+          ? { ...prev, lines: prev.lines.map(l => l.itemId === item.id ? { ...l, quantity: l.quantity + 1 } : l) }
+          : { ...prev, lines: [...prev.lines, { itemId: item.id, quantity: 1, discount: '' }] });
+      setPosSearch('');
+  };
+
+  const handlePosCheckout = async () => {
+      const { lines, orderDiscount, total } = posTotals;
+      if (!lines.length) return;
+      const short = lines.find(l => l.quantity > l.item.quantity);
+      if (short) { setError(`الكمية المطلوبة من ${short.item.name} أكبر من المتوفر (${short.item.quantity})`); return; }
+      if (posCart.onCredit && !posCart.customer.trim()) { setError('البيع بالآجل يتطلب اسم العميل'); return; }
+      if (posCreditWarning && !confirm(`سيتجاوز رصيد ${posCustomer!.name} الحد الائتماني (${formatCurrency(posCreditWarning.limit, posCreditWarning.currency)}) ليصبح ${formatCurrency(posCreditWarning.projected, posCreditWarning.currency)}. هل تريد المتابعة؟`)) return;
+
+      const customer = await resolveCustomer(posCart.customer);
+      const termsDays = posCart.terms !== '' ? parseInt(posCart.terms) : customer?.paymentTermsDays;
+      const tx: Transaction = {
+          id: generateId(), type: posCart.onCredit ? 'debt' : 'sale',
+          client: customer?.name || (lines.length === 1 ? lines[0].item.name : `${lines.length} منتجات`), customerId: customer?.id, clientPhone: customer?.phone,
+          amount: total, currency: posCart.currency, date: getToday(),
+          time: new Date().toLocaleTimeString('en-US', {hour: '2-digit', minute:'2-digit'}),
+          status: posCart.onCredit ? 'pending' : 'completed', method: 'POS',
+          saleLines: lines.map(l => ({ itemId: l.itemId, name: l.item.name, quantity: l.quantity, unitPrice: l.unitPrice, discount: l.discountValue, unitCost: l.item.cost })),
+          ...(orderDiscount ? { orderDiscount } : {}),
+          ...(posCart.onCredit && termsDays !== undefined ? { dueDate: addDays(getToday(), termsDays) } : {})
+      };
+      const updatedItems = lines.map(l => ({ ...l.item, quantity: l.item.quantity - l.quantity }));
+      const newMovements = lines.map((l, idx) => createMovement(updatedItems[idx], -l.quantity, 'sale', currentUser, tx.id));
+      await saveStockTransaction([tx], updatedItems, newMovements);
+      setMovements(prev => [...prev, ...newMovements]);
+      setTransactions(prev => [tx, ...prev]);
+      setInventory(prev => prev.map(i => updatedItems.find(u => u.id === i.id) || i));
+      setPosCart(prev => ({ ...prev, lines: [], orderDiscount: '', customer: '', onCredit: false, terms: '' }));
+      setLastPosSaleId(tx.id);
+      setSuccess(true);
+  };
+
+  // Goods receipt: restocks each item at a weighted-average cost and books the purchase as an expense
+  // (pending while the supplier is unpaid). Item costs are kept in USD like prices, so IQD purchases convert at the day's rate.
+  const handlePurchaseSave = async () => {
+      if (!purchaseForm || !can('manageInventory')) return;
+      const supplierName = purchaseForm.supplier.trim();
+      const lines = purchaseForm.lines
+          .map(l => ({ item: inventory.find(i => i.id === l.itemId), quantity: parseFloat(l.quantity), unitCost: parseFloat(l.unitCost) }))
+          .filter(l => l.item && l.quantity > 0 && l.unitCost >= 0);
+      if (!supplierName) { setError('اختر المورد'); return; }
+      if (!lines.length) { setError('أضف منتجاً واحداً على الأقل بكمية وكلفة صحيحة'); return; }
+
+      let supplier = customers.find(c => normalizeCustomerName(c.name) === normalizeCustomerName(supplierName));
+      if (!supplier || !supplier.isSupplier) {
+          supplier = { ...(supplier || createCustomer(supplierName)), isSupplier: true };
+          await dbOp(CUSTOMER_STORE, 'put', supplier);
+          const saved = supplier;
+          setCustomers(prev => prev.some(c => c.id === saved.id) ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+      }
+
+      const rate = getRateForDate(sortedRates, purchaseForm.date).rate;
+      const updatedItems = new Map<string, InventoryItem>();
+      const newMovements: StockMovement[] = [];
+      lines.forEach(({ item, quantity, unitCost }) => {
+          const current = updatedItems.get(item!.id) || item!;
+          const costUSD = purchaseForm.currency === 'USD' ? unitCost : unitCost / rate;
+          const onHand = Math.max(current.quantity, 0);
+          const cost = onHand + quantity > 0 ? (onHand * (current.cost || 0) + quantity * costUSD) / (onHand + quantity) : costUSD;
+          const updated = { ...current, quantity: current.quantity + quantity, cost: Math.round(cost * 100) / 100 };
+          updatedItems.set(current.id, updated);
+          newMovements.push(createMovement(updated, quantity, 'purchase', currentUser));
+      });
+
+      const tx: Transaction = {
+          id: generateId(), type: 'expense', client: supplier.name, customerId: supplier.id,
+          amount: lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0), currency: purchaseForm.currency,
+          date: purchaseForm.date || getToday(),
+          time: new Date().toLocaleTimeString('en-US', {hour: '2-digit', minute:'2-digit'}),
+          status: purchaseForm.paid ? 'completed' : 'pending', method: 'Purchase',
+          purchaseLines: lines.map(l => ({ itemId: l.item!.id, name: l.item!.name, quantity: l.quantity, unitCost: l.unitCost }))
+      };
+      newMovements.forEach(m => { m.transactionId = tx.id; });
+      await saveStockTransaction([tx], Array.from(updatedItems.values()), newMovements);
+      setMovements(prev => [...prev, ...newMovements]);
+      setTransactions(prev => [tx, ...prev]);
+      setInventory(prev => prev.map(i => updatedItems.get(i.id) || i));
+      setPurchaseForm(null);
+      setSuccess(true);
+  };
+
+  const handleSettlePayables = async (supplier: Customer) => {
+      if (!can('settleDebts') || !confirm(`هل تم تسديد جميع مستحقات ${supplier.name}؟`)) return;
+      const settled = transactions.filter(t => t.customerId === supplier.id && t.type === 'expense' && t.status === 'pending').map(t => ({ ...t, status: 'completed' as TransactionStatus }));
+      for (const t of settled) { await dbOp(STORE_NAME, 'put', t); }
+      setTransactions(prev => prev.map(t => settled.find(u => u.id === t.id) || t));
+      setSuccess(true);
+  };
+
+  // Books a payment as its own transaction and applies it to the client's open debts in that currency
+  const recordDebtPayment = async (clientKey: string, amount: number, currency: Currency, date: string) => {
+      const debts = transactions.filter(t => getClientKey(t) === clientKey && t.type === 'debt' && t.status === 'pending' && t.currency === currency);
+      const { allocations, updatedDebts } = allocatePayment(debts, amount);
+      if (allocations.length === 0) return;
+      const payment: Transaction = {
+          id: generateId(), type: 'payment', client: getClientName(debts[0]), customerId: debts[0].customerId, clientPhone: debts.find(d => d.clientPhone)?.clientPhone,
+          amount: allocations.reduce((sum, a) => sum + a.amount, 0), currency, date,
+          time: new Date().toLocaleTimeString('en-US', {hour: '2-digit', minute:'2-digit'}),
+          status: 'completed', method: 'Manual', allocations
+      };
+      // One write for the payment and the debts it settles, so a failure can't leave a debt paid without its payment
+      await saveTransactions([...updatedDebts, payment]);
+      setTransactions(prev => [payment, ...prev.map(t => updatedDebts.find(u => u.id === t.id) || t)]);
+  };
+
+  // --- Debt Reminders ---
+  const buildReminderMessage = (client: typeof debtList[number], templateId: string) => {
+      const template = reminderTemplates.find(t => t.id === templateId) || reminderTemplates[0];
+      return fillReminderTemplate(template?.body || '', {
+          name: client.name,
+          balance: formatTotals(client.total, 'mixed'),
+          oldest_date: client.debts.reduce((oldest, d) => d.date < oldest ? d.date : oldest, client.debts[0]?.date || ''),
+          store: storeInfo.name
+      });
+  };
+
+  const openReminder = (keys: string[]) => {
+      const templateId = reminderTemplates[0]?.id || '';
+      const client = keys.length === 1 ? debtList.find(c => c.key === keys[0]) : undefined;
+      setReminderForm({ keys, templateId, message: client ? buildReminderMessage(client, templateId) : '' });
+  };
+
+  const handleSendReminder = async (client: typeof debtList[number], channel: ReminderChannel, message: string) => {
+      if (channel !== 'copy' && !client.phone) { setError(`لا يوجد رقم هاتف لـ ${client.name}`); return; }
+      if (channel === 'copy') {
+          try { await navigator.clipboard.writeText(message); } catch { setError('تعذر النسخ إلى الحافظة'); return; }
+      } else {
+          window.open(buildReminderLink(channel, client.phone, message), '_blank');
+      }
+      const reminder: DebtReminder = {
+          id: generateReminderId(), clientKey: client.key, customerId: client.customerId, clientName: client.name, phone: client.phone,
+          channel, message, sentAt: new Date().toISOString(), userId: currentUser?.id || '', userName: currentUser?.fullName || ''
+      };
+      await dbOp(REMINDER_STORE, 'put', reminder);
+      setReminders(prev => [...prev, reminder]);
+      if (channel === 'copy') setSuccess(true);
+  };
+
+  // --- Recurring Transactions ---
+  const saveRecurringTemplate = async (tpl: RecurringTemplate) => {
+      await dbOp(RECURRING_STORE, 'put', tpl);
+      setRecurring(prev => prev.some(t => t.id === tpl.id) ? prev.map(t => t.id === tpl.id ? tpl : t) : [...prev, tpl]);
+  };
+
+  const openRecurringForm = (tpl?: RecurringTemplate) => setRecurringForm(tpl
+      ? { id: tpl.id, name: tpl.name, type: tpl.type, amount: tpl.amount.toString(), currency: tpl.currency, category: findExpenseCategory(expenseCategories, tpl.category)?.id || UNCATEGORISED_CHOICE, cadence: tpl.cadence, intervalDays: (tpl.intervalDays || 30).toString(), startDate: tpl.startDate, endDate: tpl.endDate || '', autoPost: tpl.autoPost }
+      : { name: '', type: 'expense', amount: '', currency: storeInfo.currencySymbol === '$' ? 'USD' : 'IQD', category: '', cadence: 'monthly', intervalDays: '30', startDate: getToday(), endDate: '', autoPost: true });
+
+  const handleRecurringSave = async () => {
+      if (!recurringForm || !can('editTransactions')) return;
+      const amount = parseFloat(recurringForm.amount);
+      if (!recurringForm.name.trim()) { setError('أدخل اسم العملية المتكررة'); return; }
+      if (!amount || amount <= 0) { setError('أدخل مبلغاً صحيحاً'); return; }
+      if (recurringForm.endDate && recurringForm.endDate < recurringForm.startDate) { setError('تاريخ الانتهاء قبل تاريخ البدء'); return; }
+      const existing = recurring.find(t => t.id === recurringForm.id);
+      const base: RecurringTemplate = {
+          id: existing?.id || generateRecurringId(), name: recurringForm.name.trim(), type: recurringForm.type, amount, currency: recurringForm.currency,
+          category: recurringForm.type !== 'expense' || recurringForm.category === UNCATEGORISED_CHOICE ? '' : recurringForm.category || suggestExpenseCategory(expenseCategories, recurringForm.name)?.id || '', cadence: recurringForm.cadence,
+          intervalDays: recurringForm.cadence === 'custom' ? Math.max(parseInt(recurringForm.intervalDays) || 1, 1) : undefined,
+          startDate: recurringForm.startDate, endDate: recurringForm.endDate || undefined,
+          nextDate: existing?.nextDate || recurringForm.startDate, skipDates: existing?.skipDates || [],
+          autoPost: recurringForm.autoPost, active: existing?.active ?? true, createdAt: existing?.createdAt || new Date().toISOString()
+      };
+      // A new schedule restarts after the last occurrence already posted, so nothing is booked twice
+      const scheduleChanged = existing && (existing.cadence !== base.cadence || existing.intervalDays !== base.intervalDays || existing.startDate !== base.startDate);
+      if (scheduleChanged) {
+          const lastPosted = [...getPostedRecurringDates(transactions, base.id)].sort().pop();
+          let next = base.startDate;
+          for (let i = 0; lastPosted && next <= lastPosted && i < MAX_RECURRING_CATCH_UP * 10; i++) next = getNextOccurrence(base, next);
+          base.nextDate = next;
+          base.skipDates = [];
+      }
+      const { posted, updated } = runRecurringTemplates([base], transactions, getToday());
+      const saved = updated[0] || base;
+      await saveRecurringRun(posted, [saved]);
+      setRecurring(prev => prev.some(t => t.id === saved.id) ? prev.map(t => t.id === saved.id ? saved : t) : [...prev, saved]);
+      if (posted.length) setTransactions(prev => [...posted, ...prev.filter(t => !posted.some(p => p.id === t.id))]);
+      setRecurringForm(null);
+      setSuccess(true);
+  };
+
+  const handleRecurringDelete = async (tpl: RecurringTemplate) => {
+      if (!can('editTransactions') || !confirm(`حذف العملية المتكررة "${tpl.name}"؟ العمليات المسجلة سابقاً لن تُحذف.`)) return;
+      await dbOp(RECURRING_STORE, 'delete', tpl.id);
+      setRecurring(prev => prev.filter(t => t.id !== tpl.id));
+  };
+
+  // Skipping toggles a single upcoming occurrence; the cursor moves on if it was the next one due
+  const handleRecurringSkip = async (tpl: RecurringTemplate, date: string) => {
+      if (!can('editTransactions')) return;
+      const skipDates = tpl.skipDates.includes(date) ? tpl.skipDates.filter(d => d !== date) : [...tpl.skipDates, date];
+      await saveRecurringTemplate(advanceRecurringCursor({ ...tpl, skipDates }, getPostedRecurringDates(transactions, tpl.id)));
+  };
+
+  const handleRecurringPost = async (items: { tpl: RecurringTemplate; date: string }[]) => {
+      if (!items.length || !can('editTransactions')) return;
+      const posted = items.map(({ tpl, date }) => buildRecurringTransaction(tpl, date));
+      const allTransactions = [...posted, ...transactions.filter(t => !posted.some(p => p.id === t.id))];
+      const advanced = recurring.filter(t => items.some(i => i.tpl.id === t.id)).map(tpl => advanceRecurringCursor(tpl, getPostedRecurringDates(allTransactions, tpl.id)));
+      await saveRecurringRun(posted, advanced);
+      setRecurring(prev => prev.map(t => advanced.find(a => a.id === t.id) || t));
+      setTransactions(allTransactions);
+      setSuccess(true);
+  };
+
+  const handleSettleClientDebt = async (clientKey: string) => {
+      const client = debtList.find(c => c.key === clientKey);
+      if(client && can('settleDebts') && confirm(`هل تريد تسوية جميع ديون ${client.name}؟`)) {
+          for (const currency of CURRENCIES) {
+              if (client.total.native[currency] > 0) await recordDebtPayment(clientKey, client.total.native[currency], currency, getToday());
+          }
           setSuccess(true);
       }
   };
 
-  // --- STRICT HEADER-BASED PROCESS FILE (FINAL SOLUTION) ---
+  const handleRecordPayment = async () => {
+      if (!paymentForm || !can('settleDebts')) return;
+      const amount = parseFloat(paymentForm.amount);
+      const outstanding = debtList.find(c => c.key === paymentForm.key)?.total.native[paymentForm.currency] || 0;
+      if (!amount || amount <= 0) return;
+      if (amount > outstanding + 0.01) { setError(`المبلغ أكبر من الرصيد المستحق (${formatCurrency(outstanding, paymentForm.currency)})`); return; }
+      await recordDebtPayment(paymentForm.key, amount, paymentForm.currency, paymentForm.date || getToday());
+      setPaymentForm(null);
+      setSuccess(true);
+  };
+
+  const handleSaveInstallments = async () => {
+      if (!installmentForm || !can('settleDebts')) return;
+      const debt = transactions.find(t => t.id === installmentForm.debtId);
+      const count = parseInt(installmentForm.count);
+      if (!debt || !count || count < 1 || !installmentForm.firstDueDate) return;
+      const updated: Transaction = { ...debt, installmentPlan: { startPaid: debt.paidAmount || 0, installments: buildInstallments(getOutstanding(debt), count, installmentForm.firstDueDate) } };
+      await dbOp(STORE_NAME, 'put', updated);
+      setTransactions(prev => prev.map(t => t.id === updated.id ? updated : t));
+      setInstallmentForm(null);
+      setSuccess(true);
+  };
+
+  // --- PROCESS FILE: parse in worker, then hand off to the column-mapping wizard ---
   const processFile = async (file: File) => {
+    if (!can('importTransactions')) return;
     setIsUploading(true); 
     const worker = createWorker();
     
-    worker.onmessage = async (e) => {
+    worker.onmessage = (e) => {
         try {
             if (e.data.success) {
-                const newTxs: Transaction[] = [];
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const rows = e.data.data as any[][];
-                
-                // --- STRICT HEADER DETECTION ---
-                let headerRowIndex = -1;
-                let nameColIndex = -1;
-                let priceColIndex = -1;
-                let dateColIndex = -1;
-
-                // Find the header row by searching for key column names
-                for(let i = 0; i < Math.min(rows.length, 10); i++) {
-                    const rowStr = rows[i].join(' ').toLowerCase();
-                    if (rowStr.includes('menu_item_name') || rowStr.includes('name')) {
-                        headerRowIndex = i;
-                        // Map the specific column indices
-                        rows[i].forEach((cell, idx) => {
-                            const cellStr = String(cell).toLowerCase().trim();
-                            if (cellStr === 'menu_item_name' || cellStr === 'name' || cellStr === 'product') nameColIndex = idx;
-                            if (cellStr === 'actual_selling_price' || cellStr === 'price' || cellStr === 'amount') priceColIndex = idx;
-                            if (cellStr === 'date' || cellStr === 'time') dateColIndex = idx;
-                        });
-                        break;
-                    }
-                }
+                const rows = (e.data.data as any[][]).filter(r => r && r.length > 0);
+                if (rows.length === 0) { setError("الملف فارغ"); return; }
 
-                // Fallback logic if headers aren't found EXACTLY (though they should be for your file)
-                if (nameColIndex === -1) nameColIndex = 3; // Based on your file, Name is usually column 3
-                if (priceColIndex === -1) priceColIndex = 8; // Based on your file, Price is column 8 (actual_selling_price)
-                if (dateColIndex === -1) dateColIndex = 0;
-
-                // Start processing from the row AFTER the header
-                const startDataRow = headerRowIndex !== -1 ? headerRowIndex + 1 : 1;
-                
-                // Define classification keywords
-                const expenseKeywords = ['فاتورة', 'ايجار', 'راتب', 'كهرباء', 'انترنت', 'صيانة', 'شراء', 'صرف', 'expense', 'bill', 'rent', 'salary'];
-                const debtKeywords = ['دين', 'اجل', 'آجل', 'قرض', 'debt', 'credit'];
-
-                for (let i = startDataRow; i < rows.length; i++) {
-                    const row = rows[i];
-                    if (!row || row.length === 0) continue;
-
-                    // 1. Get Name
-                    let clientName = "مادة مستوردة";
-                    if (row[nameColIndex]) {
-                        clientName = String(row[nameColIndex]);
-                    } else {
-                        // Fallback heuristic: find a string that isn't a date and has no commas
-                        const candidate = row.find(c => typeof c === 'string' && c.length > 2 && !c.includes(',') && !c.match(/\d{4}-\d{2}-\d{2}/));
-                        if(candidate) clientName = candidate;
-                    }
-
-                    // 2. Get Price
-                    let amount = 0;
-                    if (row[priceColIndex] != null) {
-                        const rawPrice = row[priceColIndex];
-                        if (typeof rawPrice === 'number') amount = rawPrice;
-                        else if (typeof rawPrice === 'string') amount = parseFloat(rawPrice.replace(/[^0-9.]/g, ''));
-                    }
-                    
-                    // 3. Get Date
-                    let finalDate = getToday();
-                    if (row[dateColIndex]) {
-                        const rawDate = String(row[dateColIndex]);
-                        if (rawDate.match(/\d{4}-\d{2}-\d{2}/)) finalDate = rawDate;
-                    }
-
-                    if (!amount) continue;
-
-                    // 4. Determine Type and Status based on Keywords
-                    const lowerName = clientName.toLowerCase();
-                    let type: TransactionType = 'sale';
-                    let status: TransactionStatus = 'completed';
-
-                    if (expenseKeywords.some(k => lowerName.includes(k))) {
-                        type = 'expense';
-                        status = 'completed';
-                    } else if (debtKeywords.some(k => lowerName.includes(k))) {
-                        type = 'debt';
-                        status = 'pending';
-                    }
-
-                    const matchedItem = inventory.find(inv => inv.name.toLowerCase() === clientName.toLowerCase());
-
-                    newTxs.push({
-                        id: generateId(), 
-                        type: type,
-                        client: clientName, 
-                        itemId: matchedItem?.id,
-                        date: finalDate, 
-                        time: '12:00', 
-                        amount: Math.abs(amount), 
-                        currency: 'IQD', 
-                        status: status, 
-                        method: 'Import'
-                    } as Transaction);
-                }
+                // Prefer a saved profile whose header row matches this file exactly
+                const profile = importProfiles.find(p => rows[p.headerRowIndex] && getHeaderSignature(rows[p.headerRowIndex]) === p.headerSignature);
+                const headerRowIndex = profile ? profile.headerRowIndex : Math.max(detectHeaderRow(rows), 0);
 
-                if(newTxs.length) { await bulkAddTransactions(newTxs); loadData(); setSuccess(true); }
+                setImportWizard({
+                    fileName: file.name,
+                    rows,
+                    headerRowIndex,
+                    mapping: profile ? { ...profile.mapping } : guessColumnMapping(rows[headerRowIndex]),
+                    profileId: profile?.id || '',
+                    duplicateMode: 'skip'
+                });
+                setProfileNameInput(profile?.name || '');
+            } else {
+                setError("فشل قراءة الملف");
             }
         } catch (error) {
             console.error("Processing error", error);
@@ -751,7 +3034,313 @@ const App: React.FC = () => {
     reader.onload = (e) => worker.postMessage(e.target?.result, [e.target?.result as ArrayBuffer]);
     reader.readAsArrayBuffer(file);
   };
-  
+
+  // --- Catalogue Import / Export (same xlsx worker as transaction imports) ---
+  const processCatalogueFile = (file: File) => {
+    setIsUploading(true);
+    const worker = createWorker();
+    const finish = () => { worker.terminate(); setIsUploading(false); if (catalogueInputRef.current) catalogueInputRef.current.value = ""; };
+    worker.onmessage = (e) => {
+        try {
+            if (!e.data.success) { setError("فشل قراءة الملف"); return; }
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const plan = buildCataloguePlan(file.name, (e.data.data as any[][]).filter(r => r && r.length > 0), inventory);
+            if (!plan) { setError("لم يتم العثور على عمود الاسم أو الرمز (SKU)"); return; }
+            if (!plan.creates.length && !plan.updates.length) { setError("لا توجد تغييرات في الملف"); return; }
+            setCatalogueImport(plan);
+        } catch (error) {
+            console.error("Catalogue import error", error);
+            setError("فشل معالجة الملف");
+        } finally { finish(); }
+    };
+    worker.onerror = (e) => { console.error("Worker error", e); setError("حدث خطأ في المعالجة"); finish(); };
+    const reader = new FileReader();
+    reader.onload = (e) => worker.postMessage(e.target?.result, [e.target?.result as ArrayBuffer]);
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleCatalogueImportConfirm = async () => {
+      if (!catalogueImport || !can('manageInventory')) return;
+      const items = [...catalogueImport.creates, ...catalogueImport.updates.map(u => u.after)];
+      const note = `استيراد ${catalogueImport.fileName}`;
+      const newMovements = [
+          ...catalogueImport.creates.filter(i => i.quantity !== 0).map(i => createMovement(i, i.quantity, 'stocktake', currentUser, undefined, note)),
+          ...catalogueImport.updates.filter(u => u.after.quantity !== u.before.quantity).map(u => createMovement(u.after, u.after.quantity - u.before.quantity, 'stocktake', currentUser, undefined, note))
+      ];
+      await saveStockTransaction([], items, newMovements);
+      setInventory(prev => [...prev.map(i => catalogueImport.updates.find(u => u.after.id === i.id)?.after || i), ...catalogueImport.creates]);
+      setMovements(prev => [...prev, ...newMovements]);
+      setCatalogueImport(null);
+      setSuccess(true);
+  };
+
+  const handleInventoryExport = () => {
+    const rows = inventory.map(i => ({
+        Name: i.name, SKU: i.sku || '', Barcode: i.barcode || '', Category: i.category, Quantity: i.quantity, MinLevel: i.minLevel,
+        Price: i.price, Cost: i.cost, StockValueAtCost: i.quantity * i.cost, StockValueAtPrice: i.quantity * i.price
+    }));
+    // Totals go on their own sheet so the Inventory sheet re-imports as a catalogue without a fake product
+    const summary = [{
+        Items: rows.length,
+        TotalQuantity: rows.reduce((sum, r) => sum + r.Quantity, 0),
+        StockValueAtCost: rows.reduce((sum, r) => sum + r.StockValueAtCost, 0),
+        StockValueAtPrice: rows.reduce((sum, r) => sum + r.StockValueAtPrice, 0)
+    }];
+    const wb = utils.book_new();
+    utils.book_append_sheet(wb, utils.json_to_sheet(rows), "Inventory");
+    utils.book_append_sheet(wb, utils.json_to_sheet(summary), "Summary");
+    writeFile(wb, "Sari_Inventory.xlsx");
+  };
+
+  // --- Import Wizard Actions ---
+  // fingerprint -> id of the transaction already holding that row
+  const importedFingerprints = useMemo(() => {
+    const map = new Map<string, string>();
+    transactions.forEach(t => { if (t.fingerprint) map.set(t.fingerprint, t.id); });
+    return map;
+  }, [transactions]);
+
+  const importPreview = useMemo(() => {
+    if (!importWizard) return null;
+    const { rows, headerRowIndex } = importWizard;
+    const columnCount = Math.max(...rows.slice(0, headerRowIndex + 1 + IMPORT_PREVIEW_ROWS).map(r => r.length), 0);
+    const missing = IMPORT_FIELDS.filter(f => f.required && importWizard.mapping[f.id] === undefined);
+    const built = missing.length ? [] : buildImportTransactions(importWizard, inventory, expenseCategories);
+    const validCount = built.length;
+    const duplicateCount = built.filter(t => importedFingerprints.has(t.fingerprint!)).length;
+    return {
+        columnCount,
+        header: rows[headerRowIndex] || [],
+        sample: rows.slice(headerRowIndex + 1, headerRowIndex + 1 + IMPORT_PREVIEW_ROWS),
+        dataRowCount: Math.max(rows.length - headerRowIndex - 1, 0),
+        validCount,
+        duplicateCount,
+        missing
+    };
+  }, [importWizard, inventory, importedFingerprints, expenseCategories]);
+
+  const handleWizardHeaderRow = (index: number) => {
+      if (!importWizard) return;
+      const headerRowIndex = Math.min(Math.max(index, 0), importWizard.rows.length - 1);
+      setImportWizard({ ...importWizard, headerRowIndex, mapping: guessColumnMapping(importWizard.rows[headerRowIndex]), profileId: '' });
+  };
+
+  const handleWizardColumnField = (colIndex: number, field: ImportField | '') => {
+      if (!importWizard) return;
+      const mapping: ColumnMapping = { ...importWizard.mapping };
+      // A column feeds exactly one field
+      (Object.keys(mapping) as ImportField[]).forEach(f => { if (mapping[f] === colIndex) delete mapping[f]; });
+      if (field) mapping[field] = colIndex;
+      setImportWizard({ ...importWizard, mapping });
+  };
+
+  const handleWizardProfile = (profileId: string) => {
+      if (!importWizard) return;
+      const profile = importProfiles.find(p => p.id === profileId);
+      if (!profile) { setImportWizard({ ...importWizard, profileId: '' }); setProfileNameInput(''); return; }
+      setImportWizard({ ...importWizard, profileId, headerRowIndex: Math.min(profile.headerRowIndex, importWizard.rows.length - 1), mapping: { ...profile.mapping } });
+      setProfileNameInput(profile.name);
+  };
+
+  const handleSaveImportProfile = () => {
+      if (!importWizard || !profileNameInput.trim()) return;
+      const name = profileNameInput.trim();
+      const existing = importProfiles.find(p => p.name === name);
+      const profile: ImportProfile = {
+          id: existing?.id || `PRF-${Date.now()}`,
+          name,
+          headerSignature: getHeaderSignature(importWizard.rows[importWizard.headerRowIndex]),
+          headerRowIndex: importWizard.headerRowIndex,
+          mapping: { ...importWizard.mapping }
+      };
+      setImportProfiles(prev => existing ? prev.map(p => p.id === existing.id ? profile : p) : [...prev, profile]);
+      setImportWizard({ ...importWizard, profileId: profile.id });
+  };
+
+  const handleDeleteImportProfile = (profileId: string) => {
+      setImportProfiles(prev => prev.filter(p => p.id !== profileId));
+      if (importWizard?.profileId === profileId) { setImportWizard({ ...importWizard, profileId: '' }); setProfileNameInput(''); }
+  };
+
+  const handleImportConfirm = async () => {
+      if (!importWizard || importPreview?.missing.length || !can('importTransactions')) return;
+      const built = buildImportTransactions(importWizard, inventory, expenseCategories);
+      if (!built.length) { setError("لا توجد صفوف صالحة للاستيراد"); return; }
+
+      const batchId = `BATCH-${Date.now()}`;
+      const added: Transaction[] = [];
+      const replaced: Transaction[] = [];
+      let skippedCount = 0;
+      built.forEach(t => {
+          const existingId = importedFingerprints.get(t.fingerprint!);
+          if (existingId && importWizard.duplicateMode === 'skip') { skippedCount++; return; }
+          // Overwrite keeps the existing id so the row is replaced in place and moves to the new batch
+          if (existingId) replaced.push({ ...t, id: existingId, importBatchId: batchId });
+          else added.push({ ...t, importBatchId: batchId });
+      });
+      if (!added.length && !replaced.length) { setError("جميع الصفوف مستوردة مسبقاً"); return; }
+      const { created, linked } = linkCustomers(customers, [...added, ...replaced]);
+      const linkedById = new Map(linked.map(t => [t.id, t]));
+      const withCustomer = (t: Transaction) => linkedById.get(t.id) || t;
+      const newTxs = [...added, ...replaced].map(withCustomer);
+
+      const batch: ImportBatch = {
+          id: batchId,
+          fileName: importWizard.fileName,
+          importedAt: new Date().toISOString(),
+          rowCount: newTxs.length,
+          skippedCount,
+          fingerprints: newTxs.map(t => t.fingerprint!)
+      };
+      try {
+          await saveImportBatch(batch, added.map(withCustomer), replaced.map(withCustomer), created);
+      } catch (err) {
+          console.error("Import save error", err);
+          setError("فشل حفظ الاستيراد، لم تتم إضافة أي عملية");
+          return;
+      }
+      loadData();
+      setImportWizard(null);
+      setSuccess(true);
+  };
+
+  const handleRollbackBatch = async (batch: ImportBatch) => {
+      if (!can('deleteTransactions')) return;
+      const batchTxIds = transactions.filter(t => t.importBatchId === batch.id).map(t => t.id);
+      if (!confirm(`هل تريد التراجع عن استيراد "${batch.fileName}" وحذف ${batchTxIds.length} عملية؟`)) return;
+      await rollbackImportBatch(batch.id, batchTxIds);
+      setTransactions(prev => prev.filter(t => t.importBatchId !== batch.id));
+      setImportBatches(prev => prev.filter(b => b.id !== batch.id));
+      setSuccess(true);
+  };
+
+  // --- RECEIPT OCR (runs fully in the browser via tesseract.js) ---
+  const processReceipt = async (file: File) => {
+    setIsScanning(true);
+    let ocrWorker: Awaited<ReturnType<typeof createOcrWorker>> | null = null;
+    try {
+        ocrWorker = await createOcrWorker(['ara', 'eng']);
+        const { data } = await ocrWorker.recognize(file);
+        const rawText = data.text.trim();
+        if (!rawText) { setError("لم يتم التعرف على أي نص في الصورة"); return; }
+
+        const { total, date, vendor } = parseReceiptText(rawText);
+        // Supplier invoices are the common case, so prefill as an expense; the user can switch type in the modal
+        setManualForm({ type: 'expense', client: vendor, phone: '', amount: total ? total.toString() : '', itemId: '', description: vendor, category: suggestExpenseCategory(expenseCategories, vendor, rawText)?.id || '', date: date || getToday(), dueDate: '', rawText });
+        setCompanySearch(vendor);
+        setManualModalOpen(true);
+    } catch (err) {
+        console.error("OCR error", err);
+        setError("فشل قراءة الإيصال");
+    } finally {
+        if (ocrWorker) await ocrWorker.terminate();
+        setIsScanning(false);
+        if (cameraInputRef.current) cameraInputRef.current.value = "";
+    }
+  };
+
+  const openBarcodeCamera = (target: BarcodeScanTarget) => {
+    setBarcodeScanTarget(target);
+    barcodeImageInputRef.current?.click();
+  };
+
+  const processBarcodeImage = async (file: File) => {
+    setIsScanning(true);
+    try {
+        const code = await decodeBarcodeFromImage(file);
+        if (!code) { setError("لم يتم العثور على باركود في الصورة"); return; }
+        if (barcodeScanTarget === 'itemForm') { setNewItemForm(prev => ({ ...prev, barcode: code })); return; }
+        if (barcodeScanTarget === 'inventory') { setInventorySearch(code); return; }
+        const item = findItemByCode(inventory, code);
+        if (!item) { setError(`لا يوجد منتج بالباركود ${code}`); return; }
+        if (barcodeScanTarget === 'pos') handlePosAdd(item);
+        else setManualForm(prev => ({ ...prev, itemId: item.id }));
+    } catch (err) {
+        console.error("Barcode decode error", err);
+        setError("تعذرت قراءة الباركود، الصورة غير صالحة");
+    } finally {
+        setIsScanning(false);
+        if (barcodeImageInputRef.current) barcodeImageInputRef.current.value = "";
+    }
+  };
+
+  // --- BACKUP & RESTORE ---
+  const handleBackupDownload = async () => {
+    if (!can('manageSettings')) return;
+    try {
+        const backup: BackupFile = {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            createdAt: new Date().toISOString(),
+            stores: await readAllStores(DATA_STORES),
+            settings: Object.fromEntries(BACKUP_SETTINGS_KEYS.map(key => [key, localStorage.getItem(key)]))
+        };
+        const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `Sari_Backup_${getToday()}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+        setSuccess(true);
+    } catch (err) {
+        console.error("Backup error", err);
+        setError("فشل إنشاء النسخة الاحتياطية");
+    }
+  };
+
+  // Dry run: validates the file and counts what a restore would touch, without writing anything
+  const handleRestoreFile = async (file: File) => {
+    try {
+        const backup = validateBackup(JSON.parse(await file.text()));
+        const current = await readAllStores(DATA_STORES);
+        const summary = DATA_STORES.filter(name => backup.stores[name]).map(name => {
+            const existingIds = new Set(current[name].map(r => r.id));
+            return {
+                store: name,
+                incoming: backup.stores[name].length,
+                existing: existingIds.size,
+                overlapping: backup.stores[name].filter(r => existingIds.has(r.id)).length
+            };
+        });
+        setRestoreMode('merge');
+        setRestorePlan({ fileName: file.name, backup, summary });
+    } catch (err) {
+        console.error("Restore validation error", err);
+        setError(err instanceof SyntaxError ? "الملف ليس بصيغة JSON صالحة" : err instanceof Error ? err.message : "ملف غير صالح");
+    } finally {
+        if (restoreInputRef.current) restoreInputRef.current.value = "";
+    }
+  };
+
+  const handleRestoreConfirm = async () => {
+    if (!restorePlan || !can('clearData')) return;
+    try {
+        const { stores, settings } = restorePlan.backup;
+        await restoreStores(stores, restoreMode);
+        // Restored transactions may predate the customer directory
+        localStorage.removeItem(CUSTOMER_LINK_FLAG_KEY);
+        // Settings are only replaced in replace mode; merge keeps the current store profile
+        if (restoreMode === 'replace') {
+            if (settings.sari_store_info) setStoreInfo(JSON.parse(settings.sari_store_info));
+            if (settings.sari_items_per_page) setItemsPerPage(parseInt(settings.sari_items_per_page) || 10);
+            if (settings.sari_inventory_alerts) setInventoryAlerts(settings.sari_inventory_alerts !== 'false');
+            if (settings.sari_import_profiles) setImportProfiles(JSON.parse(settings.sari_import_profiles));
+            if (settings.sari_reminder_templates) setReminderTemplates(JSON.parse(settings.sari_reminder_templates));
+            if (settings.sari_expense_categories) setExpenseCategories(JSON.parse(settings.sari_expense_categories));
+            if (settings.sari_exchange_rates) setExchangeRates(JSON.parse(settings.sari_exchange_rates));
+            if (settings.sari_reporting_currency) setReportingCurrency(settings.sari_reporting_currency as ReportingCurrency);
+            if (settings.sari_invoice_counter) setInvoiceCounter(parseInt(settings.sari_invoice_counter) || 0);
+            if (settings.sari_receipt_layout) setReceiptLayout(settings.sari_receipt_layout as ReceiptLayout);
+        }
+        await loadData();
+        setRestorePlan(null);
+        setSuccess(true);
+    } catch (err) {
+        console.error("Restore error", err);
+        setError("فشل استعادة البيانات");
+    }
+  };
+
   // Drag and Drop Handlers
   const handleDragOver = (e: React.DragEvent) => {
       e.preventDefault();
@@ -779,18 +3368,52 @@ const App: React.FC = () => {
   };
   const handleZoneClick = () => { fileInputRef.current?.click(); };
   const initiateDelete = (id: string, name: string) => { setDeleteModal({ isOpen: true, type: 'single', targetId: id, targetName: name }); };
-  const initiateClearAll = () => { setDeleteModal({ isOpen: true, type: 'all' }); };
+  const initiateClearAll = () => { if (can('clearData')) setDeleteModal({ isOpen: true, type: 'all' }); };
   const handleDeleteConfirm = async () => {
-    if (deleteModal.type === 'single' && deleteModal.targetId) { await dbOp(STORE_NAME, 'delete', deleteModal.targetId); setTransactions(prev => prev.filter(t => t.id !== deleteModal.targetId)); } 
-    else if (deleteModal.type === 'all') { await clearStore(); setTransactions([]); setInventory([]); }
+    if (!can(deleteModal.type === 'all' ? 'clearData' : 'deleteTransactions')) return;
+    if (deleteModal.type === 'single' && deleteModal.targetId) {
+        // Deleting a payment re-opens the debts it was applied to
+        const reopened = (transactions.find(t => t.id === deleteModal.targetId)?.allocations || []).flatMap(a => {
+            const debt = transactions.find(t => t.id === a.debtId);
+            if (!debt) return [];
+            const paidAmount = Math.max((debt.paidAmount || 0) - a.amount, 0);
+            return [{ ...debt, paidAmount, status: (paidAmount >= debt.amount ? 'completed' : 'pending') as TransactionStatus }];
+        });
+        // Deleting a linked sale returns its items to stock (and a deleted purchase takes them back out)
+        const target = transactions.find(t => t.id === deleteModal.targetId);
+        if (refundsBySale.has(deleteModal.targetId)) { setError('احذف المرتجعات المرتبطة بهذه العملية أولاً'); setDeleteModal({ isOpen: false, type: 'single' }); return; }
+        if (isDebtAllocated(deleteModal.targetId)) { setError('احذف الدفعات المسجلة على هذا الدين أولاً'); setDeleteModal({ isOpen: false, type: 'single' }); return; }
+        const { updatedItems, newMovements } = rebalanceStock(target, null, `حذف العملية ${deleteModal.targetId}`);
+        await saveStockTransaction(reopened, updatedItems, newMovements, [deleteModal.targetId]);
+        setTransactions(prev => prev.filter(t => t.id !== deleteModal.targetId).map(t => reopened.find(d => d.id === t.id) || t));
+        applyStockChanges(updatedItems, newMovements);
+    } 
+    else if (deleteModal.type === 'all') { await clearStore(); setTransactions([]); setInventory([]); setImportBatches([]); setCustomers([]); setMovements([]); setReminders([]); setRecurring([]); }
     setDeleteModal({ isOpen: false, type: 'single' }); setSuccess(true);
   };
 
+  // Settings tabs visible to the current role; falls back to the first one if the selected tab is hidden
+  const settingsTabs = ([
+    {id:'store', label:'المتجر', icon: Store, permission: 'manageSettings'}, 
+    {id:'rates', label:'سعر الصرف', icon: DollarSign, permission: 'manageSettings'},
+    {id:'users', label:'المستخدمون', icon: Users, permission: 'manageUsers'},
+    {id:'security', label:'الأمان', icon: ShieldCheck},
+    {id:'data', label:'البيانات', icon: Database, permission: 'manageSettings'},
+    {id:'imports', label:'الاستيراد', icon: History, permission: 'deleteTransactions'},
+    {id:'reminders', label:'التذكيرات', icon: MessageCircle, permission: 'manageSettings'},
+    {id:'recurring', label:'العمليات المتكررة', icon: Repeat, permission: 'editTransactions'},
+    {id:'categories', label:'تصنيفات المصروفات', icon: Tags, permission: 'manageSettings'}
+  ] as { id: SettingsTab; label: string; icon: typeof Store; permission?: Permission }[]).filter(t => !t.permission || can(t.permission));
+  const activeSettingsTab = settingsTabs.some(t => t.id === settingsTab) ? settingsTab : settingsTabs[0].id;
+
   const pageVariants: Variants = { initial: { opacity: 0, y: 10 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -10 } };
   const currentItems = useMemo(() => { const s = (currentPage - 1) * itemsPerPage; return filteredTransactions.slice(s, s + itemsPerPage); }, [filteredTransactions, currentPage, itemsPerPage]);
   const chartData = useMemo(() => { const max = Math.max(...dashboardStats.weeklyData.map(d => d.total)) || 1; return WEEK_DAYS.map((l, i) => ({ label: l, value: dashboardStats.weeklyData.find(d => d.dayIndex === i)?.total || 0, max })); }, [dashboardStats]);
 
   // --- Render Logic (Gatekeeper) ---
+  if (!sessionChecked) {
+    return <div className="min-h-screen w-full flex items-center justify-center bg-sari-dark"><Loader2 size={32} className="animate-spin text-sari-purple" /></div>;
+  }
   if (!isAuthenticated) {
     return (
       <div className="min-h-screen w-full flex items-center justify-center relative overflow-hidden bg-sari-dark font-sans" dir="rtl">
@@ -832,7 +3455,7 @@ const App: React.FC = () => {
                     {authLoading ? <Loader2 className="animate-spin" /> : isSignUp ? 'إنشاء حساب' : 'دخول'}
                 </button>
              </form>
-             <div className="mt-8 pt-6 border-t border-white/5 text-center relative z-10"><button onClick={() => { setIsSignUp(!isSignUp); setAuthError(''); }} className="text-white font-bold hover:text-sari-purple transition-colors text-sm">{isSignUp ? 'لديك حساب؟ تسجيل الدخول' : 'ليس لديك حساب؟ إنشاء حساب جديد'}</button></div>
+             {(users.length === 0 || isSignUp) && <div className="mt-8 pt-6 border-t border-white/5 text-center relative z-10"><button onClick={() => { setIsSignUp(!isSignUp); setAuthError(''); }} className="text-white font-bold hover:text-sari-purple transition-colors text-sm">{isSignUp ? 'لديك حساب؟ تسجيل الدخول' : 'ليس لديك حساب؟ إنشاء حساب جديد'}</button></div>}
          </motion.div>
       </div>
     );
@@ -850,16 +3473,19 @@ const App: React.FC = () => {
           <span className="text-xl font-bold tracking-tight text-white hidden md:block truncate">{storeInfo.name}</span>
         </div>
         <div className="flex-1 px-3 py-6 space-y-2 overflow-y-auto flex flex-col custom-scrollbar">
-             {[{id: 'dashboard', icon: LayoutDashboard, label: 'الرئيسية'}, {id: 'transactions', icon: ScrollText, label: 'السجل'}, {id: 'reports', icon: BarChart3, label: 'التقارير'}, {id: 'debts', icon: Banknote, label: 'الديون'}, {id: 'inventory', icon: Package, label: 'المخزن'}, {id: 'settings', icon: SettingsIcon, label: 'الإعدادات'}].map(item => (
+             {[{id: 'dashboard', icon: LayoutDashboard, label: 'الرئيسية'}, {id: 'pos', icon: ShoppingBag, label: 'نقطة البيع'}, {id: 'transactions', icon: ScrollText, label: 'السجل'}, {id: 'reports', icon: BarChart3, label: 'التقارير', permission: 'viewReports' as Permission}, {id: 'debts', icon: Banknote, label: 'الديون'}, {id: 'customers', icon: Users, label: 'العملاء'}, {id: 'inventory', icon: Package, label: 'المخزن'}, {id: 'settings', icon: SettingsIcon, label: 'الإعدادات'}].filter(item => !item.permission || can(item.permission)).map(item => (
                 <button key={item.id} onClick={() => setActiveTab(item.id as Tab)} className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${activeTab === item.id ? 'bg-sari-purple text-white shadow-lg shadow-sari-purple/20' : 'text-white/40 hover:bg-white/5 hover:text-white'}`}><item.icon size={20}/><span className="hidden md:block font-medium">{item.label}</span></button>
              ))}
-             <div className="mt-auto pt-4 border-t border-white/5"><button onClick={handleLogout} className="w-full flex items-center gap-3 p-3 rounded-xl text-red-400 hover:bg-red-500/10 hover:text-red-300 transition-colors"><LogOut size={20} /><span className="hidden md:block font-bold">خروج</span></button></div>
+             <div className="mt-auto pt-4 border-t border-white/5">{currentUser && <div className="hidden md:flex items-center gap-3 p-3 mb-2 rounded-xl bg-white/5"><div className="w-8 h-8 rounded-full bg-sari-purple/20 text-sari-purple-light flex items-center justify-center font-bold text-sm">{currentUser.fullName.charAt(0)}</div><div className="min-w-0"><div className="text-sm font-bold text-white truncate">{currentUser.fullName}</div><div className="text-[10px] text-white/40">{ROLE_LABELS[currentUser.role]}</div></div></div>}<button onClick={handleLogout} className="w-full flex items-center gap-3 p-3 rounded-xl text-red-400 hover:bg-red-500/10 hover:text-red-300 transition-colors"><LogOut size={20} /><span className="hidden md:block font-bold">خروج</span></button></div>
         </div>
       </nav>
 
       {/* Main Content Area */}
       <main className="flex-1 relative overflow-y-auto overflow-x-hidden p-4 md:p-8 scroll-smooth">
         <input type="file" ref={fileInputRef} className="hidden" onChange={(e) => e.target.files?.[0] && processFile(e.target.files[0])} />
+        <input type="file" ref={barcodeImageInputRef} accept="image/*" capture="environment" className="hidden" onChange={(e) => e.target.files?.[0] && processBarcodeImage(e.target.files[0])} />
+        <input type="file" ref={catalogueInputRef} accept=".xlsx,.xls,.csv" className="hidden" onChange={(e) => e.target.files?.[0] && processCatalogueFile(e.target.files[0])} />
+        <input type="file" ref={cameraInputRef} accept="image/*" capture="environment" className="hidden" onChange={(e) => e.target.files?.[0] && processReceipt(e.target.files[0])} />
         
         <AnimatePresence mode="wait">
           {activeTab === 'dashboard' && (
@@ -869,10 +3495,47 @@ const App: React.FC = () => {
                   <div className="relative w-full md:max-w-md"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={16} /><input type="text" placeholder="بحث سريع..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-xl py-3 pl-10 pr-4 text-right text-white focus:outline-none focus:border-sari-purple/50" dir="rtl" /></div>
                </div>
                
+               {/* Recurring occurrences waiting for confirmation */}
+               {can('editTransactions') && pendingRecurring.length > 0 && (
+                   <div className="p-5 rounded-[2rem] bg-amber-500/5 border border-amber-500/20 space-y-3">
+                       <div className="flex justify-between items-center">
+                           <h3 className="text-white font-bold flex items-center gap-2"><Repeat className="text-amber-400" size={18} /> عمليات متكررة مستحقة ({pendingRecurring.length})</h3>
+                           <button onClick={() => handleRecurringPost(pendingRecurring)} className="px-4 py-2 bg-amber-500/10 hover:bg-amber-500 text-amber-400 hover:text-white rounded-xl font-bold text-sm transition-colors">تسجيل الكل</button>
+                       </div>
+                       <div className="space-y-2 max-h-60 overflow-y-auto custom-scrollbar">
+                           {pendingRecurring.map(({ tpl, date }) => (
+                               <div key={`${tpl.id}-${date}`} className="flex justify-between items-center gap-3 p-3 rounded-xl bg-white/5 text-sm">
+                                   <div><span className="text-white font-bold">{tpl.name}</span> <span className="text-white/40 text-xs">{findExpenseCategory(expenseCategories, tpl.category)?.name}</span><div className="text-xs text-white/40 font-num">{date}</div></div>
+                                   <div className="flex items-center gap-2">
+                                       <span className={`font-num font-bold ${tpl.type === 'expense' ? 'text-rose-400' : 'text-emerald-400'}`}>{formatCurrency(tpl.amount, tpl.currency)}</span>
+                                       <button onClick={() => handleRecurringPost([{ tpl, date }])} title="تسجيل" className="p-2 rounded-lg bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500 hover:text-white transition-colors"><Check size={14} /></button>
+                                       <button onClick={() => handleRecurringSkip(tpl, date)} title="تخطي" className="p-2 rounded-lg bg-white/5 text-white/50 hover:bg-white/10 hover:text-white transition-colors"><X size={14} /></button>
+                                   </div>
+                               </div>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
+               {/* Categories close to or over this month's budget */}
+               {budgetWarnings.length > 0 && (
+                   <div className="p-5 rounded-[2rem] bg-rose-500/5 border border-rose-500/20 space-y-3">
+                       <h3 className="text-white font-bold flex items-center gap-2"><Target className="text-rose-400" size={18} /> تنبيهات الميزانية لهذا الشهر</h3>
+                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                           {budgetWarnings.map(b => (
+                               <div key={b.category.id} className="p-3 rounded-xl bg-white/5 text-sm">
+                                   <div className="flex justify-between"><span className="text-white font-bold">{b.category.name}</span><span className={`font-num font-bold ${b.ratio >= 1 ? 'text-rose-400' : 'text-amber-400'}`}>{Math.round(b.ratio * 100)}%</span></div>
+                                   <div className="text-xs text-white/40 mt-1">{b.ratio >= 1 ? 'تجاوز الميزانية' : 'اقترب من الميزانية'}: <span className="font-num">{formatCurrency(b.actual, b.category.budgetCurrency)} / {formatCurrency(b.category.monthlyBudget, b.category.budgetCurrency)}</span></div>
+                               </div>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
                {/* Cloud Action Zone - SPLIT LAYOUT */}
-               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+               <div className={`grid grid-cols-1 gap-6 ${can('importTransactions') ? 'md:grid-cols-3' : ''}`}>
                    {/* Left: Drag & Drop Zone */}
-                   <motion.div 
+                   {can('importTransactions') && <motion.div 
                         onHoverStart={() => setIsCloudHovered(true)} 
                         onHoverEnd={() => setIsCloudHovered(false)} 
                         onClick={() => { if(!isUploading) handleZoneClick(); }} 
@@ -902,27 +3565,27 @@ const App: React.FC = () => {
                                 </div>
                            </>
                        )}
-                   </motion.div>
+                   </motion.div>}
 
                    {/* Right: Quick Action Buttons */}
-                   <div className="md:col-span-1 flex flex-col gap-4">
-                       <button onClick={() => setManualModalOpen(true)} disabled={isUploading} className="flex-1 rounded-[2rem] bg-white/5 border border-white/10 hover:bg-sari-purple hover:border-sari-purple hover:shadow-lg hover:shadow-sari-purple/20 transition-all group flex items-center justify-center gap-4 disabled:opacity-50 disabled:cursor-not-allowed">
+                   <div className={`flex flex-col gap-4 ${can('importTransactions') ? 'md:col-span-1' : 'md:flex-row md:h-28'}`}>
+                       <button onClick={() => setManualModalOpen(true)} disabled={isUploading || isScanning} className="flex-1 rounded-[2rem] bg-white/5 border border-white/10 hover:bg-sari-purple hover:border-sari-purple hover:shadow-lg hover:shadow-sari-purple/20 transition-all group flex items-center justify-center gap-4 disabled:opacity-50 disabled:cursor-not-allowed">
                            <div className="w-12 h-12 rounded-full bg-white/10 group-hover:bg-white/20 flex items-center justify-center transition-colors"><Plus size={24} className="text-white"/></div>
                            <span className="text-lg font-bold text-white">إضافة يدوية</span>
                        </button>
-                       <button disabled={isUploading} className="flex-1 rounded-[2rem] bg-white/5 border border-white/10 hover:bg-sari-purple hover:border-sari-purple hover:shadow-lg hover:shadow-sari-purple/20 transition-all group flex items-center justify-center gap-4 disabled:opacity-50 disabled:cursor-not-allowed">
-                           <div className="w-12 h-12 rounded-full bg-white/10 group-hover:bg-white/20 flex items-center justify-center transition-colors"><Camera size={24} className="text-white"/></div>
-                           <span className="text-lg font-bold text-white">تصوير</span>
+                       <button onClick={() => cameraInputRef.current?.click()} disabled={isUploading || isScanning} className="flex-1 rounded-[2rem] bg-white/5 border border-white/10 hover:bg-sari-purple hover:border-sari-purple hover:shadow-lg hover:shadow-sari-purple/20 transition-all group flex items-center justify-center gap-4 disabled:opacity-50 disabled:cursor-not-allowed">
+                           <div className="w-12 h-12 rounded-full bg-white/10 group-hover:bg-white/20 flex items-center justify-center transition-colors">{isScanning ? <Loader2 size={24} className="text-white animate-spin"/> : <Camera size={24} className="text-white"/>}</div>
+                           <span className="text-lg font-bold text-white">{isScanning ? 'جاري القراءة...' : 'تصوير'}</span>
                        </button>
                    </div>
                </div>
 
                {/* Stats Cards */}
-               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                  <div className="p-6 rounded-3xl bg-emerald-500/5 border border-emerald-500/10 backdrop-blur-xl hover:border-emerald-500/30 transition-colors"><h3 className="text-emerald-400 text-sm font-bold mb-2 flex items-center gap-2"><ArrowUpRight size={16} /> المبيعات</h3><div className="text-3xl font-bold text-white font-num tracking-tight">{formatCurrency(dashboardStats.totalSalesUSD, storeInfo.currencySymbol === '$' ? 'USD' : 'IQD')}</div></div>
-                  <div className="p-6 rounded-3xl bg-amber-500/5 border border-amber-500/10 backdrop-blur-xl hover:border-amber-500/30 transition-colors"><h3 className="text-amber-400 text-sm font-bold mb-2 flex items-center gap-2"><ArrowDownLeft size={16} /> المصروفات</h3><div className="text-3xl font-bold text-white font-num tracking-tight">{formatCurrency(dashboardStats.totalExpenses, storeInfo.currencySymbol === '$' ? 'USD' : 'IQD')}</div></div>
-                  <div className="p-6 rounded-3xl bg-rose-500/5 border border-rose-500/10 backdrop-blur-xl hover:border-rose-500/30 transition-colors"><h3 className="text-rose-400 text-sm font-bold mb-2 flex items-center gap-2"><AlertCircle size={16} /> الديون</h3><div className="text-3xl font-bold text-white font-num tracking-tight">{formatCurrency(dashboardStats.totalDebt, storeInfo.currencySymbol === '$' ? 'USD' : 'IQD')}</div></div>
-                  <div className="p-6 rounded-3xl bg-blue-500/5 border border-blue-500/10 backdrop-blur-xl relative overflow-hidden hover:border-blue-500/30 transition-colors"><div className="relative z-10"><h3 className="text-blue-400 text-sm font-bold mb-2 flex items-center gap-2"><TrendingUp size={16} /> صافي الربح</h3><div className="text-3xl font-bold text-white font-num tracking-tight mb-4">{formatCurrency(dashboardStats.netProfit, storeInfo.currencySymbol === '$' ? 'USD' : 'IQD')}</div><div className="flex items-center justify-between text-[10px] text-blue-200/60 font-bold mb-1"><span>هامش الربح</span><span className="font-num">{calculateProfitMargin().toFixed(1)}%</span></div><div className="w-full h-1.5 bg-blue-500/20 rounded-full overflow-hidden"><motion.div initial={{ width: 0 }} animate={{ width: `${calculateProfitMargin()}%` }} className="h-full bg-blue-500 rounded-full"/></div></div></div>
+               <div className={`grid grid-cols-1 gap-4 ${can('viewReports') ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+                  <div className="p-6 rounded-3xl bg-emerald-500/5 border border-emerald-500/10 backdrop-blur-xl hover:border-emerald-500/30 transition-colors"><h3 className="text-emerald-400 text-sm font-bold mb-2 flex items-center gap-2"><ArrowUpRight size={16} /> المبيعات</h3><div className="text-3xl font-bold text-white font-num tracking-tight">{formatTotals(dashboardStats.totalSales, reportingCurrency)}</div></div>
+                  <div className="p-6 rounded-3xl bg-amber-500/5 border border-amber-500/10 backdrop-blur-xl hover:border-amber-500/30 transition-colors"><h3 className="text-amber-400 text-sm font-bold mb-2 flex items-center gap-2"><ArrowDownLeft size={16} /> المصروفات</h3><div className="text-3xl font-bold text-white font-num tracking-tight">{formatTotals(dashboardStats.totalExpenses, reportingCurrency)}</div></div>
+                  <div className="p-6 rounded-3xl bg-rose-500/5 border border-rose-500/10 backdrop-blur-xl hover:border-rose-500/30 transition-colors"><h3 className="text-rose-400 text-sm font-bold mb-2 flex items-center gap-2"><AlertCircle size={16} /> الديون</h3><div className="text-3xl font-bold text-white font-num tracking-tight">{formatTotals(dashboardStats.totalDebt, reportingCurrency)}</div></div>
+                  {can('viewReports') && <div className="p-6 rounded-3xl bg-blue-500/5 border border-blue-500/10 backdrop-blur-xl relative overflow-hidden hover:border-blue-500/30 transition-colors"><div className="relative z-10"><h3 className="text-blue-400 text-sm font-bold mb-2 flex items-center gap-2"><TrendingUp size={16} /> صافي الربح</h3><div className="text-3xl font-bold text-white font-num tracking-tight mb-4">{formatTotals(dashboardStats.netProfit, reportingCurrency)}</div><div className="flex items-center justify-between text-[10px] text-blue-200/60 font-bold mb-1"><span>هامش الربح</span><span className="font-num">{calculateProfitMargin().toFixed(1)}%</span></div><div className="w-full h-1.5 bg-blue-500/20 rounded-full overflow-hidden"><motion.div initial={{ width: 0 }} animate={{ width: `${calculateProfitMargin()}%` }} className="h-full bg-blue-500 rounded-full"/></div></div></div>}
                </div>
                
                {/* NEW DASHBOARD WIDGETS */}
@@ -970,7 +3633,7 @@ const App: React.FC = () => {
                                            </div>
                                        </div>
                                        <div className={`font-bold font-num text-sm ${t.type === 'expense' ? 'text-amber-500' : 'text-emerald-500'}`}>
-                                           {formatCurrency(t.amount, 'IQD')}
+                                           {formatCurrency(t.amount, t.currency)}
                                        </div>
                                    </div>
                                ))}
@@ -1001,7 +3664,7 @@ const App: React.FC = () => {
             </motion.div>
           )}
 
-          {activeTab === 'reports' && (
+          {activeTab === 'reports' && can('viewReports') && (
             <motion.div key="reports" variants={pageVariants} initial="initial" animate="animate" exit="exit" className="max-w-7xl mx-auto space-y-8">
                 {/* --- Luxury Glassmorphism Panel --- */}
                 <div className="relative p-8 rounded-[2.5rem] bg-gradient-to-b from-white/5 to-black/20 border border-white/10 backdrop-blur-2xl overflow-hidden shadow-2xl">
@@ -1044,6 +3707,13 @@ const App: React.FC = () => {
                                 <input style={{colorScheme: 'dark'}} type="date" value={reportEndDate} onChange={e=>setReportEndDate(e.target.value)} className="bg-transparent border-none text-white font-num text-sm focus:outline-none p-0 w-full" />
                             </div>
 
+                            <div className="group relative bg-[#0a0a0c] border border-white/10 rounded-2xl px-4 py-2 flex flex-col min-w-[140px] focus-within:border-white/20 transition-colors">
+                                <span className="text-[10px] text-white/40 font-medium mb-0.5">عرض المبالغ</span>
+                                <select value={reportingCurrency} onChange={e => setReportingCurrency(e.target.value as ReportingCurrency)} className="bg-transparent border-none text-white text-sm focus:outline-none p-0 w-full appearance-none cursor-pointer">
+                                    {(Object.keys(REPORTING_CURRENCY_LABELS) as ReportingCurrency[]).map(c => <option key={c} value={c} className="bg-gray-900">{REPORTING_CURRENCY_LABELS[c]}</option>)}
+                                </select>
+                            </div>
+
                             <button onClick={() => window.print()} className="w-[58px] h-[58px] flex items-center justify-center bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 text-white transition-all hover:scale-105 active:scale-95">
                                 <Printer size={22} />
                             </button>
@@ -1063,7 +3733,7 @@ const App: React.FC = () => {
                                     </div>
                                     <span className="text-emerald-400 font-bold text-sm">إجمالي الإيرادات</span>
                                 </div>
-                                <div className="text-4xl font-bold text-white font-num tracking-tight">{formatCurrency(reportStats.totalRevenue, 'USD')}</div>
+                                <div className="text-4xl font-bold text-white font-num tracking-tight">{formatTotals(reportStats.totalRevenue, reportingCurrency)}</div>
                             </div>
                         </div>
 
@@ -1077,7 +3747,7 @@ const App: React.FC = () => {
                                     </div>
                                     <span className="text-amber-400 font-bold text-sm">المصروفات</span>
                                 </div>
-                                <div className="text-4xl font-bold text-white font-num tracking-tight">{formatCurrency(reportStats.totalExpenses, 'USD')}</div>
+                                <div className="text-4xl font-bold text-white font-num tracking-tight">{formatTotals(reportStats.totalExpenses, reportingCurrency)}</div>
                             </div>
                         </div>
 
@@ -1091,7 +3761,8 @@ const App: React.FC = () => {
                                     </div>
                                     <span className="text-blue-400 font-bold text-sm">صافي الربح</span>
                                 </div>
-                                <div className="text-4xl font-bold text-white font-num tracking-tight">{formatCurrency(reportStats.netProfit, 'USD')}</div>
+                                <div className="text-4xl font-bold text-white font-num tracking-tight">{formatTotals(reportStats.netProfit, reportingCurrency)}</div>
+                                <div className="text-xs text-white/40 mt-2">بعد كلفة البضاعة المباعة والمصروفات التشغيلية</div>
                             </div>
                         </div>
 
@@ -1151,7 +3822,7 @@ const App: React.FC = () => {
                     <div className="p-6 bg-white/5 border border-white/10 rounded-[2rem] backdrop-blur-xl flex flex-col h-[350px]">
                         <h3 className="text-white font-bold mb-4 flex items-center gap-2"><PieChartIcon className="text-amber-400" size={18} /> تحليل الإنفاق</h3>
                         <div className="flex-1 relative">
-                            {reportStats.totalExpenses > 0 ? (
+                            {reportStats.totalExpenses.converted.USD > 0 ? (
                                 <ResponsiveContainer width="100%" height="100%">
                                     <PieChart>
                                         <Pie data={reportStats.pieData} innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
@@ -1190,7 +3861,7 @@ const App: React.FC = () => {
                                 <div key={i} className="group">
                                     <div className="flex justify-between text-xs mb-1">
                                         <span className="text-white font-medium">{p.name}</span>
-                                        <span className="text-white/60 font-num">{formatCurrency(p.amount, 'IQD')}</span>
+                                        <span className="text-white/60 font-num">{formatCurrency(p.amount, chartCurrency)}</span>
                                     </div>
                                     <div className="w-full h-1.5 bg-white/10 rounded-full overflow-hidden">
                                         <div className="h-full bg-emerald-500 rounded-full group-hover:bg-emerald-400 transition-colors" style={{ width: `${Math.min((p.amount / (reportStats.topProducts[0]?.amount || 1)) * 100, 100)}%` }}></div>
@@ -1202,6 +3873,80 @@ const App: React.FC = () => {
                     </div>
                 </div>
 
+                {/* --- Budget vs Actual --- */}
+                <div className="p-6 bg-white/5 border border-white/10 rounded-[2rem] backdrop-blur-xl space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-white font-bold flex items-center gap-2"><Target className="text-amber-400" size={18} /> الميزانية مقابل الفعلي</h3>
+                        <span className="text-xs text-white/40 font-num">{reportBudgetMonth}</span>
+                    </div>
+                    {budgetChartData.length ? (
+                        <>
+                            <div className="h-[260px] w-full">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={budgetChartData}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" vertical={false} />
+                                        <XAxis dataKey="name" stroke="#9ca3af" tick={{fill: '#6b7280', fontSize: 10}} tickLine={false} axisLine={false} />
+                                        <YAxis stroke="#9ca3af" tick={{fill: '#6b7280', fontSize: 10}} tickLine={false} axisLine={false} width={70} />
+                                        <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} formatter={(value: number) => formatCurrency(value, chartCurrency)} contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '8px', color: '#fff' }} />
+                                        <Legend />
+                                        <Bar dataKey="budget" name="الميزانية" fill="#ffffff30" radius={[4, 4, 0, 0]} />
+                                        <Bar dataKey="actual" name="الفعلي" radius={[4, 4, 0, 0]}>
+                                            {reportBudgetUsage.map(b => <Cell key={b.category.id} fill={b.ratio >= 1 ? '#ef4444' : b.ratio >= BUDGET_WARNING_RATIO ? '#f59e0b' : '#10b981'} />)}
+                                        </Bar>
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                                {reportBudgetUsage.map(b => (
+                                    <div key={b.category.id} className="p-3 rounded-xl bg-white/5 text-xs space-y-2">
+                                        <div className="flex justify-between"><span className="text-white font-bold">{b.category.name}</span><span className={`font-num font-bold ${b.ratio >= 1 ? 'text-rose-400' : b.ratio >= BUDGET_WARNING_RATIO ? 'text-amber-400' : 'text-emerald-400'}`}>{Math.round(b.ratio * 100)}%</span></div>
+                                        <div className="w-full h-1.5 bg-white/10 rounded-full overflow-hidden"><div className={`h-full rounded-full ${b.ratio >= 1 ? 'bg-rose-500' : b.ratio >= BUDGET_WARNING_RATIO ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(b.ratio * 100, 100)}%` }}></div></div>
+                                        <div className="text-white/40 font-num">{formatCurrency(b.actual, b.category.budgetCurrency)} / {formatCurrency(b.category.monthlyBudget, b.category.budgetCurrency)}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    ) : <div className="text-center text-white/30 text-sm py-6">لم تُحدد ميزانيات للتصنيفات بعد (الإعدادات ← تصنيفات المصروفات)</div>}
+                </div>
+
+                {/* --- Profitability: COGS & Gross Margin --- */}
+                <div className="p-6 bg-white/5 border border-white/10 rounded-[2rem] backdrop-blur-xl space-y-6">
+                    <h3 className="text-white font-bold flex items-center gap-2"><PieChartIcon className="text-sari-purple-light" size={18} /> الربحية</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                        {[
+                            { label: 'الإيرادات', value: reportStats.totalRevenue, color: 'text-emerald-400' },
+                            { label: 'كلفة البضاعة المباعة', value: reportStats.cogs, color: 'text-orange-400' },
+                            { label: 'إجمالي الربح', value: reportStats.grossProfit, color: 'text-blue-400' },
+                            { label: 'المصروفات التشغيلية', value: reportStats.operatingExpenses, color: 'text-amber-400' },
+                            { label: 'صافي الربح', value: reportStats.netProfit, color: 'text-white' },
+                        ].map(c => (
+                            <div key={c.label} className="p-4 rounded-2xl bg-black/20 border border-white/5">
+                                <div className="text-xs text-white/40 mb-1">{c.label}</div>
+                                <div className={`font-bold font-num ${c.color}`}>{formatTotals(c.value, reportingCurrency)}</div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="text-sm text-white/60">هامش الربح الإجمالي: <span className="font-num font-bold text-white">{calculateMargin(reportStats.totalRevenue.converted[chartCurrency], reportStats.cogs.converted[chartCurrency]).toFixed(1)}%</span><span className="text-white/30 text-xs mr-3">مشتريات البضاعة تدخل الربح ككلفة عند البيع وليست مصروفاً تشغيلياً</span></div>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {([['حسب المنتج', reportStats.productMargins], ['حسب القسم', reportStats.categoryMargins]] as const).map(([title, rows]) => (
+                            <div key={title} className="border border-white/5 rounded-2xl overflow-hidden">
+                                <div className="grid grid-cols-12 gap-2 p-3 text-xs text-white/40 font-bold bg-black/20 text-right"><div className="col-span-4">{title}</div><div className="col-span-3">المبيعات</div><div className="col-span-3">الكلفة</div><div className="col-span-2">الهامش</div></div>
+                                <div className="max-h-64 overflow-y-auto custom-scrollbar divide-y divide-white/5">
+                                    {rows.map(r => (
+                                        <div key={r.name} className="grid grid-cols-12 gap-2 p-3 text-sm text-right items-center">
+                                            <span className="col-span-4 text-white truncate">{r.name} <span className="text-white/30 font-num text-xs">×{r.count}</span></span>
+                                            <span className="col-span-3 font-num text-white/70">{formatCurrency(r.revenue, chartCurrency)}</span>
+                                            <span className="col-span-3 font-num text-white/50">{formatCurrency(r.cost, chartCurrency)}</span>
+                                            <span className={`col-span-2 font-num font-bold ${r.margin < 0 ? 'text-red-400' : r.margin < 20 ? 'text-orange-400' : 'text-emerald-400'}`}>{r.margin.toFixed(1)}%</span>
+                                        </div>
+                                    ))}
+                                    {rows.length === 0 && <div className="text-center text-white/30 text-xs py-6">لا توجد مبيعات</div>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
                 {/* --- Bottom Row: Top Debtors --- */}
                 <div className="p-6 bg-white/5 border border-white/10 rounded-[2rem] backdrop-blur-xl">
                     <h3 className="text-white font-bold mb-4 flex items-center gap-2"><Users className="text-rose-400" size={18} /> قائمة كبار المدينين</h3>
@@ -1212,12 +3957,222 @@ const App: React.FC = () => {
                                     <div className="w-10 h-10 rounded-full bg-rose-500/10 text-rose-500 flex items-center justify-center font-bold">{d.name.charAt(0)}</div>
                                     <div className="text-sm font-bold text-white">{d.name}</div>
                                 </div>
-                                <div className="text-rose-400 font-bold font-num">{formatCurrency(d.amount, 'IQD')}</div>
+                                <div className="text-rose-400 font-bold font-num">{formatTotals(d.amount, reportingCurrency)}</div>
                             </div>
                         ))}
                         {reportStats.topDebtors.length === 0 && <div className="col-span-full text-center text-white/30 text-sm py-4">لا توجد ديون مستحقة</div>}
                     </div>
                 </div>
+
+                {/* --- Debt Aging --- */}
+                <div className="p-6 bg-white/5 border border-white/10 rounded-[2rem] backdrop-blur-xl">
+                    <h3 className="text-white font-bold mb-1 flex items-center gap-2"><Clock className="text-rose-400" size={18} /> أعمار الديون</h3>
+                    <p className="text-xs text-white/40 mb-4">الأرصدة المتبقية حسب عدد الأيام بعد تاريخ الاستحقاق، حتى اليوم. الديون بلا تاريخ استحقاق تُحتسب من تاريخ تسجيلها.</p>
+                    <div className="overflow-x-auto custom-scrollbar">
+                        <table className="w-full text-sm text-right">
+                            <thead><tr className="text-white/40 text-xs border-b border-white/10"><th className="py-2 px-3 font-normal">العميل</th>{AGING_BUCKETS.map(b => <th key={b.key} className="py-2 px-3 font-normal">{b.label}</th>)}<th className="py-2 px-3 font-normal">الإجمالي</th></tr></thead>
+                            <tbody>
+                                {agingReport.clients.map(c => (
+                                    <tr key={c.key} className="border-b border-white/5">
+                                        <td className="py-2 px-3 text-white font-bold">{c.name}</td>
+                                        {AGING_BUCKETS.map((b, i) => { const v = c.buckets[b.key]; const empty = !v.native.USD && !v.native.IQD; return <td key={b.key} className={`py-2 px-3 font-num ${empty ? 'text-white/20' : i >= 3 ? 'text-rose-400 font-bold' : i === 2 ? 'text-amber-400' : 'text-white/70'}`}>{empty ? '—' : formatTotals(v, reportingCurrency)}</td>; })}
+                                        <td className="py-2 px-3 font-num text-white font-bold">{formatTotals(c.total, reportingCurrency)}</td>
+                                    </tr>
+                                ))}
+                                {agingReport.clients.length > 0 && (
+                                    <tr className="text-white font-bold"><td className="py-2 px-3">المجموع</td>{AGING_BUCKETS.map(b => <td key={b.key} className="py-2 px-3 font-num">{formatTotals(agingReport.totals[b.key], reportingCurrency)}</td>)}<td className="py-2 px-3 font-num">{formatTotals(agingReport.total, reportingCurrency)}</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                        {agingReport.clients.length === 0 && <div className="text-center text-white/30 text-sm py-4">لا توجد ديون مستحقة</div>}
+                    </div>
+                </div>
+
+                {/* --- Exchange Rates Applied --- */}
+                <div className="p-6 bg-white/5 border border-white/10 rounded-[2rem] backdrop-blur-xl">
+                    <h3 className="text-white font-bold mb-4 flex items-center gap-2"><DollarSign className="text-sari-purple-light" size={18} /> أسعار الصرف المستخدمة</h3>
+                    <div className="flex flex-wrap gap-3">
+                        {reportStats.ratesUsed.map(r => (
+                            <div key={r.effectiveDate} className="px-4 py-3 rounded-2xl bg-white/5 border border-white/5 text-sm">
+                                <span className="text-white/40">من </span><span className="font-num text-white">{r.effectiveDate}</span>
+                                <span className="font-num font-bold text-white mx-3">{r.rate.toLocaleString('en-US')} IQD</span>
+                                <span className="text-white/40 font-num">{r.count} عملية</span>
+                            </div>
+                        ))}
+                        {reportStats.ratesUsed.length === 0 && <div className="text-white/30 text-sm">لا توجد عمليات محوّلة بين العملتين في هذه الفترة</div>}
+                    </div>
+                </div>
+            </motion.div>
+          )}
+
+          {activeTab === 'pos' && (
+            <motion.div key="pos" variants={pageVariants} initial="initial" animate="animate" exit="exit" className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* --- Cart --- */}
+                <div className="lg:col-span-2 bg-white/5 border border-white/10 rounded-3xl overflow-hidden flex flex-col h-[650px]">
+                    <div className="p-4 border-b border-white/10 relative">
+                        <div className="flex gap-2"><div className="relative flex-1"><ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={18} /><input autoFocus type="text" value={posSearch} onChange={e => setPosSearch(e.target.value)} onKeyDown={e => { if (e.key === 'Enter' && posResults[0]) handlePosAdd(posResults[0]); }} placeholder="ابحث عن منتج أو امسح الباركود..." className="w-full bg-black/20 border border-white/10 rounded-xl py-3 pl-10 pr-4 text-white focus:outline-none focus:border-sari-purple/50 text-right" /></div><button onClick={() => openBarcodeCamera('pos')} disabled={isScanning} title="تصوير الباركود" className="px-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 disabled:opacity-40"><Camera size={18} /></button></div>
+                        {posResults.length > 0 && (
+                            <div className="absolute z-50 left-4 right-4 mt-1 bg-[#252529] border border-white/10 rounded-xl shadow-xl max-h-72 overflow-y-auto custom-scrollbar">
+                                {posResults.map(i => (
+                                    <button key={i.id} onClick={() => handlePosAdd(i)} disabled={i.quantity <= 0} className="w-full flex justify-between items-center px-4 py-3 text-white hover:bg-white/5 disabled:opacity-40 text-sm border-b border-white/5 last:border-0">
+                                        <span className="font-num text-emerald-400">{formatCurrency(i.price, 'USD')}</span>
+                                        <span className="text-right">{i.name} <span className="text-white/30 font-num text-xs">({i.quantity})</span></span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-12 gap-3 p-4 border-b border-white/5 text-xs text-white/40 font-bold bg-black/20 text-right">
+                        <div className="col-span-1"></div><div className="col-span-2">الإجمالي</div><div className="col-span-2">خصم</div><div className="col-span-2">الكمية</div><div className="col-span-2">السعر</div><div className="col-span-3">المنتج</div>
+                    </div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-white/5">
+                        {posTotals.lines.map(l => {
+                            const setLine = (patch: Partial<typeof posCart.lines[number]>) => setPosCart(prev => ({ ...prev, lines: prev.lines.map(x => x.itemId === l.itemId ? { ...x, ...patch } : x) }));
+                            return (
+                                <div key={l.itemId} className="grid grid-cols-12 gap-3 p-4 items-center text-right">
+                                    <button onClick={() => setPosCart(prev => ({ ...prev, lines: prev.lines.filter(x => x.itemId !== l.itemId) }))} className="col-span-1 text-red-400 hover:scale-110 transition-transform"><Trash2 size={16} /></button>
+                                    <div className="col-span-2 font-num font-bold text-white">{formatCurrency(l.total, posCart.currency)}</div>
+                                    <input type="number" value={l.discount} onChange={e => setLine({ discount: e.target.value })} className="col-span-2 bg-black/20 border border-white/10 rounded-lg p-2 text-white text-right font-num text-sm" placeholder="0" />
+                                    <div className="col-span-2 flex items-center gap-1">
+                                        <button onClick={() => setLine({ quantity: Math.max(l.quantity - 1, 1) })} className="text-white/50 hover:text-white"><MinusCircle size={18} /></button>
+                                        <input type="number" value={l.quantity} onChange={e => setLine({ quantity: Math.max(parseInt(e.target.value) || 1, 1) })} className={`w-12 bg-black/20 border rounded-lg p-1 text-center font-num text-sm ${l.quantity > l.item.quantity ? 'border-red-500/50 text-red-400' : 'border-white/10 text-white'}`} />
+                                        <button onClick={() => setLine({ quantity: l.quantity + 1 })} className="text-white/50 hover:text-white"><PlusCircle size={18} /></button>
+                                    </div>
+                                    <div className="col-span-2 font-num text-white/60 text-sm">{formatCurrency(l.unitPrice, posCart.currency)}</div>
+                                    <div className="col-span-3"><div className="text-white font-medium text-sm">{l.item.name}</div><div className="text-[10px] text-white/30 font-num">متوفر: {l.item.quantity}</div></div>
+                                </div>
+                            );
+                        })}
+                        {posTotals.lines.length === 0 && <div className="h-full flex flex-col items-center justify-center text-white/30 py-20"><ShoppingBag size={48} className="mb-4 opacity-50" /><p>السلة فارغة</p></div>}
+                    </div>
+                </div>
+
+                {/* --- Checkout --- */}
+                <div className="p-6 bg-white/5 border border-white/10 rounded-3xl space-y-4 h-fit">
+                    <h3 className="font-bold text-white">الدفع</h3>
+                    <div className="flex gap-2 bg-black/20 p-1 rounded-xl">{CURRENCIES.map(c => (<button key={c} onClick={() => setPosCart({...posCart, currency: c})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${posCart.currency === c ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{c}</button>))}</div>
+                    <div className="flex gap-2 bg-black/20 p-1 rounded-xl">{[false, true].map(onCredit => (<button key={String(onCredit)} onClick={() => setPosCart({...posCart, onCredit})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${posCart.onCredit === onCredit ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{onCredit ? 'آجل (دين)' : 'نقدي'}</button>))}</div>
+                    <div><label className="text-xs text-white/50 block mb-1">العميل {posCart.onCredit ? '' : '(اختياري)'}</label><input type="text" list="pos-customer-list" value={posCart.customer} onChange={e => setPosCart({...posCart, customer: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="اسم العميل" /><datalist id="pos-customer-list">{customers.map(c => <option key={c.id} value={c.name} />)}</datalist></div>
+                    {posCart.onCredit && <div><label className="text-xs text-white/50 block mb-1">شروط الدفع</label><select value={posCart.terms} onChange={e => setPosCart({...posCart, terms: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="" className="bg-gray-900">{posCustomer?.paymentTermsDays !== undefined ? `حسب العميل (${formatPaymentTerms(posCustomer.paymentTermsDays)})` : 'بدون تاريخ استحقاق'}</option>{PAYMENT_TERMS_OPTIONS.map(d => <option key={d} value={d} className="bg-gray-900">{formatPaymentTerms(d)}</option>)}</select></div>}
+                    {posCreditWarning && <div className="flex items-start gap-2 text-xs p-3 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-400"><AlertTriangle size={16} className="shrink-0" /><span>تجاوز الحد الائتماني: الرصيد الحالي <span className="font-num">{formatCurrency(posCreditWarning.balance, posCreditWarning.currency)}</span> وسيصبح <span className="font-num font-bold">{formatCurrency(posCreditWarning.projected, posCreditWarning.currency)}</span> من أصل <span className="font-num">{formatCurrency(posCreditWarning.limit, posCreditWarning.currency)}</span></span></div>}
+                    <div><label className="text-xs text-white/50 block mb-1">خصم على الفاتورة</label><input type="number" value={posCart.orderDiscount} onChange={e => setPosCart({...posCart, orderDiscount: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="0" /></div>
+                    <div className="space-y-2 pt-4 border-t border-white/5 text-sm">
+                        <div className="flex justify-between text-white/50"><span>المجموع</span><span className="font-num">{formatCurrency(posTotals.subtotal, posCart.currency)}</span></div>
+                        {posTotals.orderDiscount > 0 && <div className="flex justify-between text-amber-400"><span>الخصم</span><span className="font-num">-{formatCurrency(posTotals.orderDiscount, posCart.currency)}</span></div>}
+                        <div className="flex justify-between text-white text-2xl font-bold"><span>الإجمالي</span><span className="font-num">{formatCurrency(posTotals.total, posCart.currency)}</span></div>
+                        {posCart.currency === 'IQD' && <div className="text-[10px] text-white/30 text-left">سعر الصرف: <span className="font-num">{currentRate.rate.toLocaleString('en-US')}</span></div>}
+                    </div>
+                    <button onClick={handlePosCheckout} disabled={posTotals.lines.length === 0} className="w-full py-4 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-40 text-white rounded-xl font-bold flex items-center justify-center gap-2"><CheckCircle2 size={20} /> إتمام البيع</button>
+                    {lastPosSaleId && transactions.some(t => t.id === lastPosSaleId) && <button onClick={() => openInvoice(transactions.find(t => t.id === lastPosSaleId)!)} className="w-full py-3 mt-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2"><Printer size={16} /> إيصال آخر عملية</button>}
+                </div>
+            </motion.div>
+          )}
+
+          {activeTab === 'customers' && (
+            <motion.div key="customers" variants={pageVariants} initial="initial" animate="animate" exit="exit" className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* --- Customer Directory --- */}
+                <div className="bg-white/5 border border-white/10 rounded-3xl overflow-hidden flex flex-col h-[650px]">
+                    <div className="p-4 border-b border-white/10 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-bold text-white">العملاء <span className="text-white/40 font-num text-sm">({customers.length})</span></h3>
+                            {can('editTransactions') && <button onClick={() => setCustomerForm(createCustomer(''))} className="px-3 py-2 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl text-xs font-bold flex items-center gap-1"><UserPlus size={14} /> عميل جديد</button>}
+                        </div>
+                        <div className="relative"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={14} /><input type="text" value={customerSearch} onChange={e => setCustomerSearch(e.target.value)} placeholder="بحث بالاسم أو الهاتف..." className="w-full bg-black/20 border border-white/10 rounded-xl py-2 pl-9 pr-4 text-sm text-white focus:outline-none text-right" /></div>
+                    </div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-white/5">
+                        {filteredCustomers.map(c => {
+                            const stats = customerStats.get(c.id);
+                            return (
+                                <button key={c.id} onClick={() => { setCustomerForm(c); setMergeSourceId(''); }} className={`w-full flex items-center justify-between p-4 text-right transition-colors ${customerForm?.id === c.id ? 'bg-sari-purple/10' : 'hover:bg-white/5'}`}>
+                                    <div className="flex items-center gap-3">
+                                        <div className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-sm font-bold text-sari-purple-light">{c.name.charAt(0).toUpperCase()}</div>
+                                        <div>
+                                            <div className="text-white font-medium text-sm">{c.name}</div>
+                                            <div className="text-[10px] text-white/30 font-num">{c.phone || 'No Phone'}</div>
+                                        </div>
+                                    </div>
+                                    {stats && (stats.balance.native.IQD > 0 || stats.balance.native.USD > 0) && <span className="text-xs font-num text-rose-400">{formatTotals(stats.balance, reportingCurrency)}</span>}
+                                </button>
+                            );
+                        })}
+                        {filteredCustomers.length === 0 && <div className="text-center text-white/30 text-sm py-10">لا يوجد عملاء</div>}
+                    </div>
+                </div>
+
+                {/* --- Customer Profile --- */}
+                <div className="lg:col-span-2 space-y-6">
+                    {customerForm ? (() => {
+                        const stats = customerStats.get(customerForm.id);
+                        const history = transactions.filter(t => t.customerId === customerForm.id).sort((a, b) => b.date.localeCompare(a.date));
+                        const isSaved = customers.some(c => c.id === customerForm.id);
+                        const overLimit = customerForm.creditLimit > 0 && !!stats && stats.balance.converted[customerForm.creditCurrency] > customerForm.creditLimit;
+                        return (
+                            <>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <div className="p-5 rounded-3xl bg-rose-500/5 border border-rose-500/10"><div className="text-rose-400 text-xs font-bold mb-2">الرصيد المستحق</div><div className="text-2xl font-bold text-white font-num">{formatTotals(stats?.balance || emptyTotals(), reportingCurrency)}</div>{customerForm.creditLimit > 0 && <div className={`text-[10px] mt-1 ${overLimit ? 'text-rose-400 font-bold' : 'text-white/40'}`}>الحد الائتماني: <span className="font-num">{formatCurrency(customerForm.creditLimit, customerForm.creditCurrency)}</span></div>}</div>
+                                    <div className="p-5 rounded-3xl bg-emerald-500/5 border border-emerald-500/10"><div className="text-emerald-400 text-xs font-bold mb-2">القيمة الإجمالية للعميل</div><div className="text-2xl font-bold text-white font-num">{formatTotals(stats?.lifetime || emptyTotals(), reportingCurrency)}</div></div>
+                                    {customerForm.isSupplier && stats && (stats.payable.native.IQD > 0 || stats.payable.native.USD > 0) && <div className="md:col-span-3 p-5 rounded-3xl bg-amber-500/5 border border-amber-500/10 flex justify-between items-center"><div><div className="text-amber-400 text-xs font-bold mb-2">مستحقات المورد غير المسددة</div><div className="text-2xl font-bold text-white font-num">{formatTotals(stats.payable, reportingCurrency)}</div></div>{can('settleDebts') && <button onClick={() => handleSettlePayables(customerForm)} className="px-4 py-3 bg-amber-500/10 hover:bg-amber-500 hover:text-white text-amber-400 rounded-xl font-bold transition-all flex items-center gap-2"><CheckCircle2 size={18} /> تسديد</button>}</div>}
+                                    <div className="p-5 rounded-3xl bg-white/5 border border-white/10"><div className="text-white/50 text-xs font-bold mb-2">العمليات</div><div className="text-2xl font-bold text-white font-num">{stats?.count || 0}</div>{stats?.lastDate && <div className="text-[10px] text-white/40 mt-1">آخر عملية: <span className="font-num">{stats.lastDate}</span></div>}</div>
+                                </div>
+
+                                <div className="p-6 bg-white/5 border border-white/10 rounded-3xl space-y-4">
+                                    <div className="flex justify-between items-center">
+                                        <h3 className="font-bold text-white flex items-center gap-2"><User size={18} className="text-sari-purple-light" /> {isSaved ? 'بيانات العميل' : 'عميل جديد'}</h3>
+                                        <div className="flex items-center gap-3">
+                                            {isSaved && <button onClick={() => openStatement(customerForm.id, customerForm.name, customerForm.phone)} className="px-3 py-1.5 rounded-lg bg-white/5 text-white/60 hover:bg-white/10 hover:text-white text-xs font-bold flex items-center gap-1 transition-colors"><FileText size={14} /> كشف حساب</button>}
+                                            <button onClick={() => setCustomerForm(null)} className="text-white/50 hover:text-white"><X size={20} /></button>
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <input type="text" value={customerForm.name} onChange={e => setCustomerForm({...customerForm, name: e.target.value})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="الاسم" />
+                                        <input type="tel" value={customerForm.phone} onChange={e => setCustomerForm({...customerForm, phone: e.target.value})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="رقم الهاتف" />
+                                        <input type="text" value={customerForm.address} onChange={e => setCustomerForm({...customerForm, address: e.target.value})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="العنوان" />
+                                        <div className="flex gap-2">
+                                            <input type="number" value={customerForm.creditLimit || ''} onChange={e => setCustomerForm({...customerForm, creditLimit: parseFloat(e.target.value) || 0})} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="الحد الائتماني (0 = بلا حد)" />
+                                            <select value={customerForm.creditCurrency} onChange={e => setCustomerForm({...customerForm, creditCurrency: e.target.value as Currency})} className="bg-black/20 border border-white/10 rounded-xl px-3 text-white">{CURRENCIES.map(c => <option key={c} value={c} className="bg-gray-900">{c}</option>)}</select>
+                                        </div>
+                                        <select value={customerForm.paymentTermsDays ?? ''} onChange={e => setCustomerForm({...customerForm, paymentTermsDays: e.target.value === '' ? undefined : parseInt(e.target.value)})} className="md:col-span-2 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="" className="bg-gray-900">شروط الدفع الافتراضية: بدون</option>{PAYMENT_TERMS_OPTIONS.map(d => <option key={d} value={d} className="bg-gray-900">شروط الدفع: {formatPaymentTerms(d)}</option>)}</select>
+                                        <label className="md:col-span-2 flex items-center gap-2 text-sm text-white/60 cursor-pointer"><input type="checkbox" checked={!!customerForm.isSupplier} onChange={e => setCustomerForm({...customerForm, isSupplier: e.target.checked})} className="accent-sari-purple" /> مورد (يظهر في استلام البضاعة)</label>
+                                        <textarea value={customerForm.notes} onChange={e => setCustomerForm({...customerForm, notes: e.target.value})} className="md:col-span-2 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right h-20 resize-none" placeholder="ملاحظات" />
+                                    </div>
+                                    {can('editTransactions') && <div className="flex gap-3">
+                                        <button onClick={handleCustomerSave} className="flex-1 py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl font-bold flex items-center justify-center gap-2"><Save size={18} /> حفظ</button>
+                                        {isSaved && can('deleteTransactions') && <button onClick={() => handleCustomerDelete(customerForm)} className="px-5 bg-red-500/10 hover:bg-red-500 text-red-400 hover:text-white rounded-xl transition-colors"><Trash2 size={20} /></button>}
+                                    </div>}
+                                    {isSaved && can('editTransactions') && customers.length > 1 && (
+                                        <div className="pt-4 border-t border-white/5">
+                                            <label className="text-xs text-white/50 block mb-2">دمج عميل مكرر في هذا العميل</label>
+                                            <div className="flex gap-2">
+                                                <select value={mergeSourceId} onChange={e => setMergeSourceId(e.target.value)} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right">
+                                                    <option value="" className="bg-gray-900">-- اختر العميل المكرر --</option>
+                                                    {customers.filter(c => c.id !== customerForm.id).sort((a, b) => a.name.localeCompare(b.name)).map(c => <option key={c.id} value={c.id} className="bg-gray-900">{c.name}{c.phone ? ` (${c.phone})` : ''}</option>)}
+                                                </select>
+                                                <button onClick={handleMergeCustomers} disabled={!mergeSourceId} className="px-5 bg-sari-purple hover:bg-sari-purple-deep disabled:opacity-40 text-white rounded-xl font-bold">دمج</button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {isSaved && <div className="bg-white/5 border border-white/10 rounded-3xl overflow-hidden">
+                                    <div className="p-4 border-b border-white/10 font-bold text-white flex items-center gap-2"><History size={18} className="text-sari-purple-light" /> سجل العمليات</div>
+                                    <div className="max-h-[320px] overflow-y-auto custom-scrollbar divide-y divide-white/5">
+                                        {history.map(t => (
+                                            <div key={t.id} className="grid grid-cols-4 gap-4 p-4 items-center text-right text-sm">
+                                                <span className="font-num text-white/60">{t.date}</span>
+                                                <span className="text-white/60">{t.type}</span>
+                                                <span className="text-center"><span className={`inline-block px-2 py-1 rounded text-[10px] border ${t.status === 'completed' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-amber-500/10 text-amber-400 border-amber-500/20'}`}>{t.status}</span></span>
+                                                <span className="font-num font-bold text-white text-left">{formatCurrency(t.amount, t.currency)}</span>
+                                            </div>
+                                        ))}
+                                        {history.length === 0 && <div className="text-center text-white/30 text-sm py-8">لا توجد عمليات</div>}
+                                    </div>
+                                </div>}
+                            </>
+                        );
+                    })() : (
+                        <div className="h-[650px] flex flex-col items-center justify-center text-white/30 bg-white/5 border border-white/10 rounded-3xl"><Users size={48} className="mb-4 opacity-50" /><p>اختر عميلاً لعرض ملفه</p></div>
+                    )}
+                </div>
             </motion.div>
           )}
 
@@ -1233,29 +4188,37 @@ const App: React.FC = () => {
                             <div><div className="text-xs text-white/50 mb-1">مواد منخفضة</div><div className="text-2xl font-bold text-orange-400 font-num">{inventoryStats.lowStockCount}</div></div>
                         </div>
                     </div>
-                    <button onClick={() => { setNewItemForm({ id: '', name: '', category: '', quantity: 0, minLevel: 5, price: 0, cost: 0 }); setItemModalOpen(true); }} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2 transition-transform active:scale-95"><Plus size={18} /> منتج جديد</button>
+                    {can('manageInventory') && <button onClick={() => { setNewItemForm({ id: '', name: '', category: '', quantity: 0, minLevel: 5, price: 0, cost: 0 }); setItemModalOpen(true); }} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2 transition-transform active:scale-95"><Plus size={18} /> منتج جديد</button>}
+                    {can('manageInventory') && <button onClick={() => setPurchaseForm({ supplier: '', date: getToday(), currency: storeInfo.currencySymbol === '$' ? 'USD' : 'IQD', paid: true, lines: [{ itemId: '', quantity: '', unitCost: '' }] })} disabled={inventory.length === 0} className="w-full py-4 bg-white/5 hover:bg-white/10 disabled:opacity-40 border border-white/10 text-white rounded-2xl font-bold flex items-center justify-center gap-2 transition-transform active:scale-95"><Truck size={18} /> استلام بضاعة</button>}
+                    <div className="grid grid-cols-2 gap-2">
+                        {can('manageInventory') && <button onClick={() => catalogueInputRef.current?.click()} disabled={isUploading} className="py-3 bg-white/5 hover:bg-white/10 disabled:opacity-40 border border-white/10 text-white rounded-2xl text-sm font-bold flex items-center justify-center gap-2"><Upload size={16} /> استيراد</button>}
+                        <button onClick={handleInventoryExport} disabled={inventory.length === 0} className={`py-3 bg-white/5 hover:bg-white/10 disabled:opacity-40 border border-white/10 text-white rounded-2xl text-sm font-bold flex items-center justify-center gap-2 ${can('manageInventory') ? '' : 'col-span-2'}`}><FileSpreadsheet size={16} /> تصدير</button>
+                    </div>
                 </div>
 
                 {/* --- Inventory Right Table --- */}
                 <div className="lg:col-span-3 bg-white/5 border border-white/10 rounded-3xl overflow-hidden flex flex-col h-[600px]">
                     <div className="p-4 border-b border-white/10 flex justify-between items-center">
                         <h3 className="font-bold text-white">قائمة المنتجات</h3>
-                        <div className="relative"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={14} /><input type="text" placeholder="بحث..." className="bg-black/20 border border-white/10 rounded-xl py-2 pl-9 pr-4 text-xs text-white focus:outline-none" /></div>
+                        <div className="flex gap-2"><div className="relative"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={14} /><input type="text" value={inventorySearch} onChange={e => setInventorySearch(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.select(); }} placeholder="بحث بالاسم أو الباركود..." className="bg-black/20 border border-white/10 rounded-xl py-2 pl-9 pr-4 text-xs text-white focus:outline-none" /></div><button onClick={() => openBarcodeCamera('inventory')} disabled={isScanning} title="تصوير الباركود" className="px-3 bg-black/20 hover:bg-white/10 border border-white/10 rounded-xl text-white/60 disabled:opacity-40"><Camera size={14} /></button></div>
                     </div>
                     <div className="flex-1 overflow-y-auto custom-scrollbar">
                         <div className="grid grid-cols-12 gap-4 p-4 border-b border-white/5 text-xs text-white/40 font-bold bg-black/20 text-right sticky top-0 backdrop-blur-md z-10">
                             <div className="col-span-1">Action</div><div className="col-span-2">Price</div><div className="col-span-2">Stock</div><div className="col-span-3">Category</div><div className="col-span-4 pr-4">Product</div>
                         </div>
-                        {inventory.map(item => (
+                        {filteredInventory.map(item => (
                             <div key={item.id} className="grid grid-cols-12 gap-4 p-4 items-center hover:bg-white/5 transition-colors text-right group border-b border-white/5 last:border-0">
                                 <div className="col-span-1 flex gap-2 justify-end opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <button onClick={() => handleDeleteInventory(item.id)} className="text-red-400 hover:scale-110 transition-transform"><Trash2 size={16} /></button>
-                                    <button onClick={() => { setNewItemForm(item); setItemModalOpen(true); }} className="text-white/50 hover:text-white hover:scale-110 transition-transform"><Edit3 size={16} /></button>
+                                    {can('manageInventory') && <>
+                                        <button onClick={() => handleDeleteInventory(item.id)} className="text-red-400 hover:scale-110 transition-transform"><Trash2 size={16} /></button>
+                                        <button onClick={() => { setNewItemForm(item); setItemModalOpen(true); }} className="text-white/50 hover:text-white hover:scale-110 transition-transform"><Edit3 size={16} /></button>
+                                    </>}
+                                    <button onClick={() => setStockHistoryItemId(item.id)} className="text-white/50 hover:text-white hover:scale-110 transition-transform"><History size={16} /></button>
                                 </div>
                                 <div className="col-span-2 font-num text-emerald-400 font-medium">{formatCurrency(item.price, 'USD')}</div>
                                 <div className="col-span-2"><span className={`px-2 py-1 rounded text-xs font-bold font-num ${item.quantity <= item.minLevel ? 'bg-red-500/20 text-red-400' : 'bg-emerald-500/10 text-emerald-400'}`}>{item.quantity}</span></div>
                                 <div className="col-span-3 text-white/60 text-xs">{item.category}</div>
-                                <div className="col-span-4 pr-4 font-bold text-white">{item.name}</div>
+                                <div className="col-span-4 pr-4 font-bold text-white">{item.name}{(item.sku || item.barcode) && <div className="text-[10px] text-white/30 font-num font-normal">{[item.sku, item.barcode].filter(Boolean).join(' · ')}</div>}</div>
                             </div>
                         ))}
                     </div>
@@ -1265,31 +4228,58 @@ const App: React.FC = () => {
 
           {activeTab === 'debts' && (
             <motion.div key="debts" variants={pageVariants} initial="initial" animate="animate" exit="exit" className="max-w-7xl mx-auto space-y-6">
-                <div className="flex justify-between items-center"><h2 className="text-2xl font-bold text-rose-500">إدارة الديون</h2><div className="relative"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={16} /><input type="text" placeholder="بحث عن عميل..." className="bg-white/5 border border-white/10 rounded-xl py-2 pl-10 pr-4 text-white focus:outline-none text-right" dir="rtl" /></div></div>
+                <div className="flex justify-between items-center"><h2 className="text-2xl font-bold text-rose-500">إدارة الديون</h2><div className="flex gap-2"><button onClick={() => openReminder(debtList.map(c => c.key))} disabled={debtList.length === 0} className="px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500 text-emerald-400 hover:text-white disabled:opacity-40 rounded-xl font-bold text-sm flex items-center gap-2 transition-colors"><MessageCircle size={16} /> تذكير جماعي</button><div className="relative"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={16} /><input type="text" placeholder="بحث عن عميل..." className="bg-white/5 border border-white/10 rounded-xl py-2 pl-10 pr-4 text-white focus:outline-none text-right" dir="rtl" /></div></div></div>
                 
                 {/* --- Client Cards Grid --- */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {debtList.map((client, i) => (
-                        <div key={i} className="bg-white/5 border border-white/10 rounded-3xl p-6 flex flex-col gap-4 hover:border-rose-500/30 transition-all group relative overflow-hidden">
+                    {debtList.map(client => (
+                        <div key={client.key} className={`bg-white/5 border rounded-3xl p-6 flex flex-col gap-4 hover:border-rose-500/30 transition-all group relative overflow-hidden ${client.overdue ? 'border-rose-500/50 shadow-[0_0_20px_rgba(244,63,94,0.15)]' : 'border-white/10'}`}>
                             <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-rose-500 to-rose-900"></div>
                             <div className="flex justify-between items-start">
                                 <div className="w-12 h-12 rounded-full bg-rose-500/10 flex items-center justify-center text-rose-500 font-bold text-xl">{client.name.charAt(0).toUpperCase()}</div>
                                 <div className="text-right">
-                                    <h3 className="font-bold text-white text-lg">{client.name}</h3>
+                                    <h3 onClick={() => { const c = client.customerId && customersById.get(client.customerId); if (c) { setCustomerForm(c); setActiveTab('customers'); } }} className={`font-bold text-white text-lg ${client.customerId ? 'cursor-pointer hover:text-rose-400 transition-colors' : ''}`}>{client.name}</h3>
                                     <div className="text-xs text-white/40 font-num">{client.phone || 'No Phone'}</div>
                                 </div>
                             </div>
                             <div className="py-4 border-t border-white/5 border-b flex justify-between items-center">
                                 <span className="text-sm text-white/50">إجمالي الدين</span>
-                                <span className="text-2xl font-bold text-rose-500 font-num">{formatCurrency(client.total, storeInfo.currencySymbol === '$' ? 'USD' : 'IQD')}</span>
+                                <span className="text-2xl font-bold text-rose-500 font-num">{formatTotals(client.total, reportingCurrency)}</span>
                             </div>
                             <div className="flex justify-between items-center text-xs text-white/40">
                                 <span>آخر حركة: <span className="font-num">{client.lastDate}</span></span>
-                                <span>{client.count} عمليات</span>
+                                <span>{client.count} عمليات · {client.payments} دفعات</span>
                             </div>
-                            <button onClick={() => handleSettleClientDebt(client.name)} className="w-full py-3 mt-2 bg-rose-500/10 hover:bg-rose-500 hover:text-white text-rose-500 rounded-xl font-bold transition-all flex items-center justify-center gap-2">
-                                <CheckCircle2 size={18} /> تسوية الدين
-                            </button>
+                            {client.nextInstallment && (
+                                <div className={`flex justify-between items-center text-xs px-3 py-2 rounded-xl border ${client.nextInstallment.dueDate < getToday() ? 'bg-rose-500/10 border-rose-500/30 text-rose-400' : 'bg-white/5 border-white/5 text-white/60'}`}>
+                                    <span className="flex items-center gap-1"><CalendarDays size={14} /> {client.nextInstallment.dueDate < getToday() ? 'قسط متأخر' : 'القسط القادم'}: <span className="font-num">{client.nextInstallment.dueDate}</span></span>
+                                    <span className="font-num font-bold">{formatCurrency(client.nextInstallment.amount, client.nextInstallment.currency)}</span>
+                                </div>
+                            )}
+                            {(client.nextDueDate || client.overdue) && (
+                                <div className={`flex justify-between items-center text-xs px-3 py-2 rounded-xl border ${client.overdue ? 'bg-rose-500/10 border-rose-500/30 text-rose-400' : 'bg-white/5 border-white/5 text-white/60'}`}>
+                                    <span className="flex items-center gap-1"><Clock size={14} /> {client.nextDueDate ? <>تاريخ الاستحقاق: <span className="font-num">{client.nextDueDate}</span></> : 'مستحق'}</span>
+                                    {client.overdue && <span className="font-bold">متأخر <span className="font-num">{client.overdueDays}</span> يوم</span>}
+                                </div>
+                            )}
+                            <div className="flex justify-between items-center text-xs">
+                                <span className="text-white/40">{remindersByClient.get(client.key)?.length ? <>آخر تذكير: <span className="font-num">{remindersByClient.get(client.key)![0].sentAt.slice(0, 10)}</span> · {remindersByClient.get(client.key)!.length} تذكيرات</> : 'لم يتم التذكير بعد'}</span>
+                                <div className="flex gap-2">
+                                    <button onClick={() => openStatement(client.key, client.name, client.phone)} className="px-3 py-1.5 rounded-lg bg-white/5 text-white/60 hover:bg-white/10 hover:text-white font-bold flex items-center gap-1 transition-colors"><FileText size={14} /> كشف حساب</button>
+                                    <button onClick={() => openReminder([client.key])} className="px-3 py-1.5 rounded-lg bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500 hover:text-white font-bold flex items-center gap-1 transition-colors"><MessageCircle size={14} /> تذكير</button>
+                                </div>
+                            </div>
+                            {can('settleDebts') && <div className="grid grid-cols-2 gap-2 mt-2">
+                                <button onClick={() => setPaymentForm({ key: client.key, client: client.name, amount: '', currency: CURRENCIES.find(c => client.total.native[c] > 0) || 'IQD', date: getToday() })} className="py-3 bg-white/5 hover:bg-white/10 text-white rounded-xl font-bold transition-all flex items-center justify-center gap-2">
+                                    <Wallet size={18} /> تسجيل دفعة
+                                </button>
+                                <button onClick={() => setInstallmentForm({ key: client.key, client: client.name, debtId: client.debts[0].id, count: '3', firstDueDate: getToday() })} className="py-3 bg-white/5 hover:bg-white/10 text-white rounded-xl font-bold transition-all flex items-center justify-center gap-2">
+                                    <CalendarDays size={18} /> أقساط
+                                </button>
+                                <button onClick={() => handleSettleClientDebt(client.key)} className="col-span-2 py-3 bg-rose-500/10 hover:bg-rose-500 hover:text-white text-rose-500 rounded-xl font-bold transition-all flex items-center justify-center gap-2">
+                                    <CheckCircle2 size={18} /> تسوية الدين
+                                </button>
+                            </div>}
                         </div>
                     ))}
                     {debtList.length === 0 && <div className="col-span-full py-20 text-center text-white/30 flex flex-col items-center"><CheckCircle2 size={48} className="mb-4 opacity-50"/><p>لا توجد ديون مستحقة</p></div>}
@@ -1299,7 +4289,7 @@ const App: React.FC = () => {
 
           {activeTab === 'transactions' && (
             <motion.div key="transactions" variants={pageVariants} initial="initial" animate="animate" exit="exit" className="max-w-7xl mx-auto space-y-6 print:hidden">
-               <div className="flex flex-col md:flex-row justify-between items-center gap-4"><h2 className="text-2xl font-bold text-white">سجل العمليات</h2><div className="flex gap-2"><button onClick={handleExport} className="p-2 bg-emerald-500/10 text-emerald-400 rounded-xl"><FileSpreadsheet size={20} /></button><button onClick={() => window.print()} className="p-2 bg-sari-purple/10 text-sari-purple-light rounded-xl"><Printer size={20} /></button><button onClick={initiateClearAll} className="p-2 bg-red-500/10 text-red-400 rounded-xl"><Trash2 size={20} /></button></div></div>
+               <div className="flex flex-col md:flex-row justify-between items-center gap-4"><h2 className="text-2xl font-bold text-white">سجل العمليات</h2><div className="flex gap-2"><button onClick={handleExport} className="p-2 bg-emerald-500/10 text-emerald-400 rounded-xl"><FileSpreadsheet size={20} /></button><button onClick={() => window.print()} className="p-2 bg-sari-purple/10 text-sari-purple-light rounded-xl"><Printer size={20} /></button>{can('clearData') && <button onClick={initiateClearAll} className="p-2 bg-red-500/10 text-red-400 rounded-xl"><Trash2 size={20} /></button>}</div></div>
                
                {/* Filter Tabs */}
                <div className="flex gap-2 p-1 bg-white/5 border border-white/10 rounded-xl w-fit">
@@ -1313,7 +4303,7 @@ const App: React.FC = () => {
 
                <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-3xl overflow-hidden min-h-[500px]">
                   <div className="grid grid-cols-12 gap-4 p-4 border-b border-white/10 text-xs text-white/40 font-bold uppercase bg-black/20 text-right"><div className="col-span-2 text-left">Amount</div><div className="col-span-2 text-center">Status</div><div className="col-span-2 text-center">Method</div><div className="col-span-2 text-center">Date</div><div className="col-span-4 pr-4">Details</div></div>
-                  <div className="divide-y divide-white/5">{currentItems.map((item) => (<motion.div layout initial={{ opacity: 0 }} animate={{ opacity: 1 }} key={item.id} onClick={() => setEditingItem(item)} className="grid grid-cols-12 gap-4 p-4 items-center hover:bg-white/5 transition-colors cursor-pointer text-right"><div className="col-span-2 text-left font-num font-bold text-white"><span className={item.type === 'expense' ? 'text-amber-400' : 'text-emerald-400'}>{item.type === 'expense' ? '-' : '+'}{formatCurrency(item.amount, item.currency)}</span></div><div className="col-span-2 text-center"><span className={`inline-block px-2 py-1 rounded text-[10px] border ${item.status === 'completed' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-amber-500/10 text-amber-400 border-amber-500/20'}`}>{item.status}</span></div><div className="col-span-2 text-center text-white/60 text-sm">{item.method}</div><div className="col-span-2 text-center"><div className="text-white text-sm font-num">{item.date}</div><div className="text-[10px] text-white/30 font-num">{item.time}</div></div><div className="col-span-4 flex items-center justify-end gap-3"><div className="text-right"><div className="text-white font-medium text-sm">{item.client}</div><div className="text-[10px] text-white/30 font-num">{item.id}</div></div><div className={`p-2 rounded-lg ${item.type === 'sale' || item.type === 'cash' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'}`}>{item.type === 'sale' || item.type === 'cash' ? <ArrowUpRight size={18} /> : <ArrowDownLeft size={18} />}</div></div></motion.div>))}</div>
+                  <div className="divide-y divide-white/5">{currentItems.map((item) => (<motion.div layout initial={{ opacity: 0 }} animate={{ opacity: 1 }} key={item.id} onClick={() => can('editTransactions') && setEditingItem(item)} className={`grid grid-cols-12 gap-4 p-4 items-center hover:bg-white/5 transition-colors text-right ${can('editTransactions') ? 'cursor-pointer' : ''}`}><div className="col-span-2 text-left font-num font-bold text-white flex items-center gap-2">{RECEIPT_TITLES[item.type] && <button onClick={e => { e.stopPropagation(); openInvoice(item); }} title="فاتورة / إيصال" className="p-1.5 rounded-lg bg-white/5 text-white/40 hover:text-white hover:bg-white/10 transition-colors"><Printer size={14} /></button>}{(item.type === 'sale' || item.type === 'cash') && item.status === 'completed' && can('issueRefunds') && <button onClick={e => { e.stopPropagation(); openRefund(item); }} title="استرجاع" className="p-1.5 rounded-lg bg-white/5 text-white/40 hover:text-rose-400 hover:bg-rose-500/10 transition-colors"><RotateCcw size={14} /></button>}<div><span className={item.type === 'expense' || item.type === 'refund' ? 'text-amber-400' : 'text-emerald-400'}>{item.type === 'expense' || item.type === 'refund' ? '-' : '+'}{formatCurrency(item.amount, item.currency)}</span>{refundsBySale.has(item.id) && <div className="text-[10px] text-rose-400 font-normal">مسترجع {formatCurrency(getRefundedAmount(item.id), item.currency)}</div>}</div></div><div className="col-span-2 text-center"><span className={`inline-block px-2 py-1 rounded text-[10px] border ${item.status === 'completed' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-amber-500/10 text-amber-400 border-amber-500/20'}`}>{item.status}</span></div><div className="col-span-2 text-center text-white/60 text-sm">{item.method}</div><div className="col-span-2 text-center"><div className="text-white text-sm font-num">{item.date}</div><div className="text-[10px] text-white/30 font-num">{item.time}</div></div><div className="col-span-4 flex items-center justify-end gap-3"><div className="text-right"><div className="text-white font-medium text-sm">{item.client}</div><div className="text-[10px] text-white/30 font-num">{item.id}{item.refundOf && ` ← ${item.refundOf}`}</div></div><div className={`p-2 rounded-lg ${item.type === 'sale' || item.type === 'cash' || item.type === 'payment' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'}`}>{item.type === 'sale' || item.type === 'cash' || item.type === 'payment' ? <ArrowUpRight size={18} /> : <ArrowDownLeft size={18} />}</div></div></motion.div>))}</div>
                </div>
                <div className="flex justify-center items-center gap-4 mt-6"><button onClick={() => setCurrentPage(p => Math.max(p - 1, 1))} disabled={currentPage === 1} className="p-2 rounded-xl bg-white/5 text-white disabled:opacity-50"><ChevronLeft size={20} /></button><span className="text-sm text-white/60">Page {currentPage} of {totalPages}</span><button onClick={() => setCurrentPage(p => Math.min(p + 1, totalPages))} disabled={currentPage === totalPages} className="p-2 rounded-xl bg-white/5 text-white disabled:opacity-50"><ChevronRight size={20} /></button></div>
             </motion.div>
@@ -1324,17 +4314,12 @@ const App: React.FC = () => {
                
                {/* Horizontal Tabs */}
                <div className="flex flex-wrap items-center gap-4 mb-8">
-                   {[
-                     {id:'store', label:'المتجر', icon: Store}, 
-                     {id:'companies', label:'الشركات', icon: Building2}, 
-                     {id:'security', label:'الأمان', icon: ShieldCheck},
-                     {id:'data', label:'البيانات', icon: Database}
-                   ].map((t: any) => (
+                   {settingsTabs.map(t => (
                        <button 
                          key={t.id} 
                          onClick={() => setSettingsTab(t.id)} 
                          className={`flex-1 min-w-[120px] flex flex-col md:flex-row items-center justify-center gap-3 p-4 rounded-3xl border transition-all ${
-                           settingsTab === t.id 
+                           activeSettingsTab === t.id 
                              ? 'bg-sari-purple border-sari-purple text-white shadow-lg shadow-sari-purple/20 scale-[1.02]' 
                              : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20'
                          }`}
@@ -1352,7 +4337,7 @@ const App: React.FC = () => {
                    <div className="absolute top-0 left-1/2 -translate-x-1/2 w-1/2 h-1/2 bg-sari-purple/5 blur-[100px] rounded-full pointer-events-none" />
 
                    <div className="relative z-10">
-                     {settingsTab === 'store' && (
+                     {activeSettingsTab === 'store' && (
                          <div className="space-y-6">
                              <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
                                <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><Store size={24}/></div>
@@ -1377,56 +4362,310 @@ const App: React.FC = () => {
                                    <option value="IQD" className="bg-gray-900">Dinar (IQD)</option>
                                    <option value="$" className="bg-gray-900">Dollar (USD)</option>
                                  </select>
+                                 <p className="text-xs text-white/40">تُستخدم للعمليات الجديدة فقط، ولا تغيّر عملة العمليات المسجلة.</p>
+                               </div>
+                               <div className="space-y-2">
+                                 <label className="text-sm font-bold text-white/60">عرض الإجماليات</label>
+                                 <select value={reportingCurrency} onChange={e => setReportingCurrency(e.target.value as ReportingCurrency)} className="w-full bg-black/20 border border-white/10 rounded-xl p-4 text-white focus:border-sari-purple/50 transition-colors appearance-none cursor-pointer">
+                                   {(Object.keys(REPORTING_CURRENCY_LABELS) as ReportingCurrency[]).map(c => <option key={c} value={c} className="bg-gray-900">{REPORTING_CURRENCY_LABELS[c]}</option>)}
+                                 </select>
                                </div>
                              </div>
                          </div>
                      )}
                      
-                     {settingsTab === 'companies' && (
+                     {activeSettingsTab === 'rates' && (
                          <div className="space-y-6">
                              <div className="flex justify-between items-center mb-6">
                                <h3 className="text-2xl font-bold text-white flex items-center gap-3">
-                                 <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><Building2 size={24}/></div>
-                                 إدارة الشركات والعملاء
+                                 <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><DollarSign size={24}/></div>
+                                 سعر صرف الدولار
                                </h3>
+                               <div className="text-sm text-white/50">السعر الحالي: <span className="font-num font-bold text-white">{currentRate.rate.toLocaleString('en-US')}</span> IQD</div>
                              </div>
-                             
-                             <div className="flex gap-2 mb-6">
-                               <input type="text" value={newCompany} onChange={e=>setNewCompany(e.target.value)} placeholder="اسم جهة جديد..." className="flex-1 bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white focus:border-sari-purple/50 transition-colors"/>
-                               <button onClick={handleAddCompany} className="px-6 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold transition-colors flex items-center gap-2"><Plus size={18}/> إضافة</button>
+
+                             <div className="flex flex-col md:flex-row gap-2">
+                               <input type="date" style={{colorScheme: 'dark'}} value={newRateForm.effectiveDate} onChange={e => setNewRateForm({ ...newRateForm, effectiveDate: e.target.value })} className="bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white font-num focus:border-sari-purple/50 transition-colors" />
+                               <input type="number" value={newRateForm.rate} onChange={e => setNewRateForm({ ...newRateForm, rate: e.target.value })} placeholder="دينار لكل 1 دولار" className="flex-1 bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white font-num focus:border-sari-purple/50 transition-colors" />
+                               <button onClick={handleAddRate} className="px-6 py-3 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold transition-colors flex items-center justify-center gap-2"><Plus size={18}/> إضافة</button>
                              </div>
+                             <p className="text-xs text-white/40">يُطبق كل سعر على العمليات المؤرخة من تاريخ سريانه حتى السعر التالي، لذلك لا تتغير أرباح الفترات السابقة عند تحديث السعر.</p>
 
-                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-h-[400px] overflow-y-auto custom-scrollbar p-1">
-                                 {storeInfo.knownCompanies.map((c, i) => (
-                                     <div key={i} className="flex justify-between items-center p-4 rounded-2xl bg-white/5 border border-white/5 hover:border-white/20 group transition-all">
-                                             <div className="flex items-center gap-3">
-                                               <div className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-sm font-bold text-sari-purple-light">{c.charAt(0)}</div>
-                                               <span className="text-white font-medium">{c}</span>
-                                             </div>
-                                             <button onClick={() => handleDeleteCompany(c)} className="w-8 h-8 flex items-center justify-center rounded-lg bg-red-500/10 text-red-400 opacity-0 group-hover:opacity-100 transition-all hover:bg-red-500 hover:text-white"><Trash2 size={16}/></button>
+                             <div className="space-y-2 max-h-[400px] overflow-y-auto custom-scrollbar p-1">
+                                 {[...sortedRates].reverse().map(r => (
+                                     <div key={r.id} className={`flex justify-between items-center p-4 rounded-2xl border group transition-all ${r.id === currentRate.id ? 'bg-sari-purple/10 border-sari-purple/30' : 'bg-white/5 border-white/5 hover:border-white/20'}`}>
+                                         <div className="flex items-center gap-3">
+                                           <CalendarDays size={18} className="text-white/40" />
+                                           <span className="text-white font-num">{r.effectiveDate}</span>
+                                           {r.id === currentRate.id && <span className="text-[10px] px-2 py-0.5 rounded-full bg-sari-purple text-white font-bold">الحالي</span>}
+                                         </div>
+                                         <div className="flex items-center gap-4">
+                                           <span className="font-num font-bold text-white">{r.rate.toLocaleString('en-US')} IQD</span>
+                                           {exchangeRates.length > 1 && <button onClick={() => handleDeleteRate(r.id)} className="w-8 h-8 flex items-center justify-center rounded-lg bg-red-500/10 text-red-400 opacity-0 group-hover:opacity-100 transition-all hover:bg-red-500 hover:text-white"><Trash2 size={16}/></button>}
+                                         </div>
                                      </div>
                                  ))}
                              </div>
                          </div>
                      )}
 
-                     {settingsTab === 'security' && (
-                         <div className="flex flex-col items-center justify-center py-12 text-center space-y-4">
-                            <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center text-white/20"><ShieldCheck size={40} /></div>
-                            <div>
-                              <h3 className="text-xl font-bold text-white">إعدادات الأمان</h3>
-                              <p className="text-white/40 max-w-sm mx-auto mt-2">قريباً: تغيير كلمة المرور وإدارة الصلاحيات</p>
-                            </div>
+                     {activeSettingsTab === 'users' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><Users size={24}/></div>
+                               المستخدمون والصلاحيات
+                             </h3>
+
+                             <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                               <input type="text" value={newUserForm.fullName} onChange={e => setNewUserForm({ ...newUserForm, fullName: e.target.value })} placeholder="الاسم الكامل" className="bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white focus:border-sari-purple/50 transition-colors" />
+                               <input type="email" value={newUserForm.email} onChange={e => setNewUserForm({ ...newUserForm, email: e.target.value })} placeholder="البريد الإلكتروني" className="bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white focus:border-sari-purple/50 transition-colors" />
+                               <input type="password" value={newUserForm.password} onChange={e => setNewUserForm({ ...newUserForm, password: e.target.value })} placeholder="كلمة المرور" className="bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white focus:border-sari-purple/50 transition-colors" />
+                               <div className="flex gap-2">
+                                 <select value={newUserForm.role} onChange={e => setNewUserForm({ ...newUserForm, role: e.target.value as UserRole })} className="flex-1 bg-black/20 border border-white/10 rounded-xl px-3 py-3 text-white">
+                                   {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r} className="bg-gray-900">{ROLE_LABELS[r]}</option>)}
+                                 </select>
+                                 <button onClick={handleAddUser} className="px-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold transition-colors"><UserPlus size={18}/></button>
+                               </div>
+                             </div>
+                             {userFormError && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-2 text-red-200 text-sm"><AlertCircle size={16} /> {userFormError}</div>}
+
+                             <div className="space-y-3 max-h-[400px] overflow-y-auto custom-scrollbar p-1">
+                                 {users.map(u => (
+                                     <div key={u.id} className="flex justify-between items-center p-4 rounded-2xl bg-white/5 border border-white/5 hover:border-white/20 group transition-all">
+                                         <div className="flex items-center gap-3">
+                                           <div className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-sm font-bold text-sari-purple-light">{u.fullName.charAt(0)}</div>
+                                           <div>
+                                             <div className="text-white font-medium">{u.fullName}{u.id === currentUser?.id && <span className="text-[10px] text-white/40 mr-2">(أنت)</span>}</div>
+                                             <div className="text-xs text-white/40">{u.email}{encryptionEnabled && !u.wrappedKey && <span className="text-amber-400 mr-2">· بلا مفتاح تشفير، أعد تعيين كلمة المرور</span>}</div>
+                                           </div>
+                                         </div>
+                                         <div className="flex items-center gap-2">
+                                           <select value={u.role} onChange={e => handleUserRoleChange(u.id, e.target.value as UserRole)} className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white text-sm">
+                                             {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r} className="bg-gray-900">{ROLE_LABELS[r]}</option>)}
+                                           </select>
+                                           {u.id !== currentUser?.id && <button onClick={() => setPasswordResetForm({ userId: u.id, password: '', confirm: '' })} title="إعادة تعيين كلمة المرور" className="w-8 h-8 flex items-center justify-center rounded-lg bg-white/5 text-white/60 opacity-0 group-hover:opacity-100 transition-all hover:bg-sari-purple hover:text-white"><Key size={16}/></button>}
+                                           {u.id !== currentUser?.id && <button onClick={() => handleDeleteUser(u)} className="w-8 h-8 flex items-center justify-center rounded-lg bg-red-500/10 text-red-400 opacity-0 group-hover:opacity-100 transition-all hover:bg-red-500 hover:text-white"><Trash2 size={16}/></button>}
+                                         </div>
+                                     </div>
+                                 ))}
+                             </div>
                          </div>
                      )}
 
-                     {settingsTab === 'data' && (
-                         <div className="flex flex-col items-center justify-center py-12 text-center space-y-4">
-                            <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center text-white/20"><Database size={40} /></div>
-                            <div>
-                              <h3 className="text-xl font-bold text-white">إدارة البيانات</h3>
-                              <p className="text-white/40 max-w-sm mx-auto mt-2">قريباً: النسخ الاحتياطي واستعادة البيانات</p>
-                            </div>
+                     {activeSettingsTab === 'security' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><ShieldCheck size={24}/></div>
+                               إعدادات الأمان
+                             </h3>
+                             <div className="max-w-md space-y-4">
+                                 <h4 className="font-bold text-white flex items-center gap-2"><Key size={18} className="text-sari-purple-light" /> تغيير كلمة المرور</h4>
+                                 {([['current', 'كلمة المرور الحالية'], ['next', 'كلمة المرور الجديدة'], ['confirm', 'تأكيد كلمة المرور الجديدة']] as const).map(([field, label]) => (
+                                     <div key={field} className="space-y-2">
+                                         <label className="text-sm font-bold text-white/60">{label}</label>
+                                         <input type="password" value={passwordForm[field]} onChange={e => setPasswordForm({ ...passwordForm, [field]: e.target.value })} className="w-full bg-black/20 border border-white/10 rounded-xl p-4 text-white focus:border-sari-purple/50 transition-colors" placeholder="••••••••" />
+                                     </div>
+                                 ))}
+                                 {passwordError && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-2 text-red-200 text-sm"><AlertCircle size={16} /> {passwordError}</div>}
+                                 <button onClick={handlePasswordChange} disabled={!passwordForm.current || !passwordForm.next} className="w-full py-3 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-40"><Lock size={18} /> تحديث كلمة المرور</button>
+                             </div>
+
+                             {can('manageSettings') && (
+                                 <div className="max-w-md space-y-4 pt-6 border-t border-white/5">
+                                     <div className="flex items-center justify-between">
+                                         <h4 className="font-bold text-white flex items-center gap-2"><Shield size={18} className="text-sari-purple-light" /> تشفير البيانات</h4>
+                                         <span className={`px-3 py-1 rounded-full text-xs font-bold ${encryptionEnabled ? 'bg-emerald-500/10 text-emerald-400' : 'bg-white/5 text-white/40'}`}>{encryptionEnabled ? 'مفعّل' : 'غير مفعّل'}</span>
+                                     </div>
+                                     <p className="text-sm text-white/40">يتم تشفير العمليات والمخزن على هذا الجهاز بمفتاح مشتق من كلمة المرور (AES-GCM). يُفتح المفتاح عند تسجيل الدخول فقط. لا يستطيع المستخدمون الآخرون الدخول بعد التفعيل حتى يعيد المالك تعيين كلمات مرورهم.</p>
+                                     <input type="password" value={encryptionPassword} onChange={e => setEncryptionPassword(e.target.value)} className="w-full bg-black/20 border border-white/10 rounded-xl p-4 text-white focus:border-sari-purple/50 transition-colors" placeholder="كلمة المرور الحالية للتأكيد" />
+                                     {encryptionError && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-2 text-red-200 text-sm"><AlertCircle size={16} /> {encryptionError}</div>}
+                                     <button onClick={handleToggleEncryption} disabled={!encryptionPassword || encryptionBusy} className={`w-full py-3 rounded-xl font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-40 text-white ${encryptionEnabled ? 'bg-red-500/80 hover:bg-red-500' : 'bg-emerald-500/80 hover:bg-emerald-500'}`}>
+                                         {encryptionBusy ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} {encryptionEnabled ? 'إيقاف التشفير' : 'تفعيل التشفير'}
+                                     </button>
+                                 </div>
+                             )}
+                         </div>
+                     )}
+
+                     {activeSettingsTab === 'data' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><Database size={24}/></div>
+                               إدارة البيانات
+                             </h3>
+                             <input type="file" ref={restoreInputRef} accept="application/json,.json" className="hidden" onChange={(e) => e.target.files?.[0] && handleRestoreFile(e.target.files[0])} />
+                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                 <div className="p-6 rounded-3xl bg-white/5 border border-white/10 flex flex-col gap-4">
+                                     <div className="flex items-center gap-3"><div className="w-10 h-10 rounded-xl bg-emerald-500/10 text-emerald-400 flex items-center justify-center"><Download size={20} /></div><h4 className="font-bold text-white">نسخة احتياطية</h4></div>
+                                     <p className="text-sm text-white/40 flex-1">تنزيل ملف يحتوي على جميع العمليات والمخزن وسجل الاستيراد وإعدادات المتجر.</p>
+                                     <button onClick={handleBackupDownload} className="w-full py-3 bg-emerald-500/10 hover:bg-emerald-500 text-emerald-400 hover:text-white rounded-xl font-bold transition-colors flex items-center justify-center gap-2"><FileJson size={18} /> تنزيل النسخة</button>
+                                 </div>
+                                 <div className="p-6 rounded-3xl bg-white/5 border border-white/10 flex flex-col gap-4">
+                                     <div className="flex items-center gap-3"><div className="w-10 h-10 rounded-xl bg-sari-purple/10 text-sari-purple-light flex items-center justify-center"><Upload size={20} /></div><h4 className="font-bold text-white">استعادة البيانات</h4></div>
+                                     <p className="text-sm text-white/40 flex-1">اختر ملف نسخة احتياطية لعرض ملخص التغييرات قبل الاستعادة.</p>
+                                     <button onClick={() => restoreInputRef.current?.click()} className="w-full py-3 bg-sari-purple/10 hover:bg-sari-purple text-sari-purple-light hover:text-white rounded-xl font-bold transition-colors flex items-center justify-center gap-2"><FileJson size={18} /> اختيار ملف</button>
+                                 </div>
+                             </div>
+
+                             {restorePlan && (
+                                 <div className="p-6 rounded-3xl bg-black/20 border border-sari-purple/30 space-y-4">
+                                     <div className="flex justify-between items-start">
+                                         <div>
+                                             <h4 className="font-bold text-white">ملخص الاستعادة</h4>
+                                             <p className="text-xs text-white/40 font-num mt-1">{restorePlan.fileName} · {new Date(restorePlan.backup.createdAt).toLocaleString('en-GB')} · v{restorePlan.backup.version}</p>
+                                         </div>
+                                         <button onClick={() => setRestorePlan(null)} className="text-white/50 hover:text-white"><X size={20} /></button>
+                                     </div>
+                                     <div className="flex gap-1 p-1 bg-black/20 rounded-xl w-fit">
+                                         {(['merge', 'replace'] as const).map(mode => (
+                                             <button key={mode} onClick={() => setRestoreMode(mode)} className={`px-5 py-2 rounded-lg text-sm font-bold transition-all ${restoreMode === mode ? 'bg-sari-purple text-white' : 'text-white/50 hover:text-white'}`}>{mode === 'merge' ? 'دمج' : 'استبدال'}</button>
+                                         ))}
+                                     </div>
+                                     <div className="space-y-2">
+                                         {restorePlan.summary.map(row => (
+                                             <div key={row.store} className="flex justify-between items-center p-3 rounded-xl bg-white/5 text-sm">
+                                                 <span className="text-white font-bold">{BACKUP_STORE_LABELS[row.store] || row.store}</span>
+                                                 {restoreMode === 'merge' ? (
+                                                     <span className="text-white/60"><span className="font-num text-emerald-400">{row.incoming - row.overlapping}</span> جديد · <span className="font-num text-amber-400">{row.overlapping}</span> تحديث</span>
+                                                 ) : (
+                                                     <span className="text-white/60"><span className="font-num text-red-400">{row.existing}</span> حذف · <span className="font-num text-emerald-400">{row.incoming}</span> استعادة</span>
+                                                 )}
+                                             </div>
+                                         ))}
+                                     </div>
+                                     <p className="text-xs text-white/40">{restoreMode === 'merge' ? 'سيتم الاحتفاظ بإعدادات المتجر الحالية.' : 'سيتم استبدال جميع البيانات وإعدادات المتجر بمحتوى النسخة.'}</p>
+                                     <button onClick={handleRestoreConfirm} className={`w-full py-3 rounded-xl font-bold text-white transition-colors ${restoreMode === 'replace' ? 'bg-red-500 hover:bg-red-600' : 'bg-sari-purple hover:bg-sari-purple-deep'}`}>تأكيد الاستعادة</button>
+                                 </div>
+                             )}
+                         </div>
+                     )}
+
+                     {activeSettingsTab === 'reminders' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><MessageCircle size={24}/></div>
+                               قوالب التذكير
+                             </h3>
+                             <p className="text-sm text-white/50">المتغيرات المتاحة: {REMINDER_PLACEHOLDERS.map(p => <code key={p} className="font-num text-sari-purple-light mx-1">{p}</code>)}</p>
+                             {reminderTemplates.map(t => (
+                                 <div key={t.id} className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-3">
+                                     <div className="flex gap-2">
+                                         <input type="text" value={t.name} onChange={e => setReminderTemplates(prev => prev.map(x => x.id === t.id ? { ...x, name: e.target.value } : x))} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="اسم القالب" />
+                                         <button onClick={() => setReminderTemplates(prev => prev.filter(x => x.id !== t.id))} disabled={reminderTemplates.length === 1} className="px-4 bg-red-500/10 hover:bg-red-500 text-red-400 hover:text-white disabled:opacity-30 rounded-xl transition-colors"><Trash2 size={18} /></button>
+                                     </div>
+                                     <textarea value={t.body} onChange={e => setReminderTemplates(prev => prev.map(x => x.id === t.id ? { ...x, body: e.target.value } : x))} rows={4} dir="auto" className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-sm" />
+                                 </div>
+                             ))}
+                             <div className="flex gap-3">
+                                 <button onClick={() => setReminderTemplates(prev => [...prev, { id: `TPL-${Date.now()}`, name: 'قالب جديد', body: '' }])} className="px-5 py-3 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold flex items-center gap-2"><Plus size={18} /> قالب جديد</button>
+                                 <button onClick={() => { if (confirm('استعادة القوالب الافتراضية؟ سيتم حذف التعديلات.')) setReminderTemplates(DEFAULT_REMINDER_TEMPLATES); }} className="px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl font-bold">استعادة الافتراضي</button>
+                             </div>
+                         </div>
+                     )}
+
+                     {activeSettingsTab === 'categories' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><Tags size={24}/></div>
+                               تصنيفات المصروفات والميزانيات
+                             </h3>
+                             <p className="text-sm text-white/50">الكلمات المفتاحية تُستخدم لتصنيف المصروفات المستوردة والإيصالات الممسوحة تلقائياً. يظهر تنبيه عند بلوغ <span className="font-num">{Math.round(BUDGET_WARNING_RATIO * 100)}%</span> من الميزانية الشهرية.</p>
+                             {expenseCategories.map(c => {
+                                 const usage = budgetUsage.find(b => b.category.id === c.id);
+                                 const update = (patch: Partial<ExpenseCategory>) => setExpenseCategories(prev => prev.map(x => x.id === c.id ? { ...x, ...patch } : x));
+                                 return (
+                                     <div key={c.id} className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-3">
+                                         <div className="flex gap-2">
+                                             <input type="text" value={c.name} onChange={e => update({ name: e.target.value })} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-bold" placeholder="اسم التصنيف" />
+                                             <button onClick={() => { if (confirm(`حذف التصنيف "${c.name}"؟ ستصبح مصروفاته غير مصنفة.`)) setExpenseCategories(prev => prev.filter(x => x.id !== c.id)); }} className="px-4 bg-red-500/10 hover:bg-red-500 text-red-400 hover:text-white rounded-xl transition-colors"><Trash2 size={16} /></button>
+                                         </div>
+                                         <input key={c.keywords.join('|')} type="text" defaultValue={c.keywords.join('، ')} onBlur={e => update({ keywords: e.target.value.split(/[,،]/).map(k => k.trim()).filter(Boolean) })} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right text-sm" placeholder="كلمات مفتاحية مفصولة بفواصل" />
+                                         <div className="flex gap-2 items-center">
+                                             <input type="number" min={0} value={c.monthlyBudget || ''} onChange={e => update({ monthlyBudget: Math.max(parseFloat(e.target.value) || 0, 0) })} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="الميزانية الشهرية (0 = بلا ميزانية)" />
+                                             <select value={c.budgetCurrency} onChange={e => update({ budgetCurrency: e.target.value as Currency })} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white">{CURRENCIES.map(cur => <option key={cur} value={cur} className="bg-gray-900">{cur}</option>)}</select>
+                                         </div>
+                                         {usage && <div className="text-xs text-white/40">هذا الشهر: <span className={`font-num ${usage.ratio >= 1 ? 'text-rose-400' : usage.ratio >= BUDGET_WARNING_RATIO ? 'text-amber-400' : 'text-white/60'}`}>{formatCurrency(usage.actual, c.budgetCurrency)} ({Math.round(usage.ratio * 100)}%)</span></div>}
+                                     </div>
+                                 );
+                             })}
+                             <div className="flex gap-3">
+                                 <button onClick={() => setExpenseCategories(prev => [...prev, { id: generateCategoryId(), name: 'تصنيف جديد', keywords: [], monthlyBudget: 0, budgetCurrency: 'IQD' }])} className="px-5 py-3 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold flex items-center gap-2"><Plus size={18} /> تصنيف جديد</button>
+                                 <button onClick={() => { if (confirm('استعادة التصنيفات الافتراضية؟ سيتم حذف التعديلات.')) setExpenseCategories(DEFAULT_EXPENSE_CATEGORIES); }} className="px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl font-bold">استعادة الافتراضي</button>
+                             </div>
+                         </div>
+                     )}
+
+                     {activeSettingsTab === 'recurring' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><Repeat size={24}/></div>
+                               العمليات المتكررة
+                             </h3>
+                             <p className="text-sm text-white/50">تُسجَّل العمليات المستحقة تلقائياً عند فتح التطبيق، بما فيها ما فات أثناء إغلاقه. القوالب التي تتطلب تأكيداً تظهر في لوحة التحكم.</p>
+                             <div className="space-y-3">
+                                 {[...recurring].sort((a, b) => a.nextDate.localeCompare(b.nextDate)).map(tpl => {
+                                     const ended = !!tpl.endDate && tpl.nextDate > tpl.endDate;
+                                     const upcoming = ended ? [] : getRecurringOccurrences(tpl, tpl.endDate || '9999-12-31', 5);
+                                     return (
+                                         <div key={tpl.id} className={`p-4 rounded-2xl bg-white/5 border border-white/5 space-y-3 ${tpl.active ? '' : 'opacity-50'}`}>
+                                             <div className="flex flex-col md:flex-row justify-between md:items-center gap-3">
+                                                 <div>
+                                                     <div className="text-white font-bold">{tpl.name} {findExpenseCategory(expenseCategories, tpl.category) && <span className="text-xs text-white/40 font-normal">· {findExpenseCategory(expenseCategories, tpl.category)!.name}</span>}</div>
+                                                     <div className="text-xs text-white/40">{tpl.type === 'expense' ? 'مصروف' : 'إيراد'} · {formatRecurrence(tpl)} · {tpl.autoPost ? 'تلقائي' : 'بعد التأكيد'}{tpl.endDate && <> · حتى <span className="font-num">{tpl.endDate}</span></>}</div>
+                                                 </div>
+                                                 <div className="flex items-center gap-2">
+                                                     <span className={`font-num font-bold ${tpl.type === 'expense' ? 'text-rose-400' : 'text-emerald-400'}`}>{formatCurrency(tpl.amount, tpl.currency)}</span>
+                                                     <button onClick={() => saveRecurringTemplate({ ...tpl, active: !tpl.active })} className="px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-white/70 text-xs font-bold">{tpl.active ? 'إيقاف' : 'تفعيل'}</button>
+                                                     <button onClick={() => openRecurringForm(tpl)} className="p-2 rounded-xl bg-white/5 hover:bg-white/10 text-white/70"><Edit3 size={16} /></button>
+                                                     <button onClick={() => handleRecurringDelete(tpl)} className="p-2 rounded-xl bg-red-500/10 hover:bg-red-500 text-red-400 hover:text-white transition-colors"><Trash2 size={16} /></button>
+                                                 </div>
+                                             </div>
+                                             {ended ? <div className="text-xs text-white/30">انتهت</div> : (
+                                                 <div className="flex flex-wrap items-center gap-2 text-xs">
+                                                     <span className="text-white/40">القادمة:</span>
+                                                     {upcoming.map(d => {
+                                                         const skipped = tpl.skipDates.includes(d);
+                                                         return <button key={d} onClick={() => handleRecurringSkip(tpl, d)} title={skipped ? 'إلغاء التخطي' : 'تخطي هذه المرة'} className={`px-2 py-1 rounded-lg font-num transition-colors ${skipped ? 'bg-white/5 text-white/30 line-through' : 'bg-sari-purple/10 text-sari-purple-light hover:bg-sari-purple/20'}`}>{d}</button>;
+                                                     })}
+                                                 </div>
+                                             )}
+                                         </div>
+                                     );
+                                 })}
+                                 {recurring.length === 0 && <div className="text-center text-white/30 text-sm py-8">لا توجد عمليات متكررة بعد</div>}
+                             </div>
+                             <button onClick={() => openRecurringForm()} className="px-5 py-3 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold flex items-center gap-2"><Plus size={18} /> عملية متكررة جديدة</button>
+                         </div>
+                     )}
+
+                     {activeSettingsTab === 'imports' && (
+                         <div className="space-y-6">
+                             <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                               <div className="p-2 bg-sari-purple/20 rounded-xl text-sari-purple"><History size={24}/></div>
+                               سجل الاستيراد
+                             </h3>
+                             <div className="space-y-3 max-h-[500px] overflow-y-auto custom-scrollbar p-1">
+                                 {[...importBatches].sort((a, b) => b.importedAt.localeCompare(a.importedAt)).map(batch => {
+                                     const remaining = transactions.filter(t => t.importBatchId === batch.id).length;
+                                     return (
+                                         <div key={batch.id} className="flex flex-col md:flex-row justify-between md:items-center gap-4 p-4 rounded-2xl bg-white/5 border border-white/5 hover:border-white/20 transition-all">
+                                             <div className="flex items-center gap-3">
+                                                 <div className="w-10 h-10 rounded-xl bg-emerald-500/10 text-emerald-400 flex items-center justify-center"><FileSpreadsheet size={20} /></div>
+                                                 <div>
+                                                     <div className="text-white font-bold">{batch.fileName}</div>
+                                                     <div className="text-xs text-white/40 font-num">{new Date(batch.importedAt).toLocaleString('en-GB')}</div>
+                                                 </div>
+                                             </div>
+                                             <div className="flex items-center gap-6 text-xs text-white/50">
+                                                 <span><span className="font-num text-white font-bold">{remaining}</span> / <span className="font-num">{batch.rowCount}</span> عملية</span>
+                                                 {batch.skippedCount > 0 && <span><span className="font-num">{batch.skippedCount}</span> مكرر تم تخطيه</span>}
+                                                 <button onClick={() => handleRollbackBatch(batch)} className="px-4 py-2 rounded-xl bg-red-500/10 text-red-400 hover:bg-red-500 hover:text-white font-bold transition-colors flex items-center gap-2"><RefreshCcw size={14} /> تراجع</button>
+                                             </div>
+                                         </div>
+                                     );
+                                 })}
+                                 {importBatches.length === 0 && <div className="py-12 text-center text-white/30 text-sm">لا توجد عمليات استيراد</div>}
+                             </div>
                          </div>
                      )}
                    </div>
@@ -1441,7 +4680,7 @@ const App: React.FC = () => {
           {manualModalOpen && (
               <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
                   <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg rounded-3xl p-6 shadow-2xl relative" onClick={() => setShowCompanyList(false)}>
-                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">إضافة معاملة</h3><button onClick={() => setManualModalOpen(false)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">إضافة معاملة</h3><button onClick={() => { setManualModalOpen(false); setManualForm(f => ({ ...f, rawText: '' })); }} className="text-white/50 hover:text-white"><X size={24} /></button></div>
                       <div className="space-y-4">
                           <div className="flex gap-2 bg-black/20 p-1 rounded-xl">{['sale', 'expense', 'debt'].map(t => (<button key={t} onClick={() => setManualForm({...manualForm, type: t as any})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${manualForm.type === t ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{t === 'sale' ? 'بيع' : t === 'expense' ? 'صرف' : 'دين'}</button>))}</div>
                           
@@ -1460,11 +4699,11 @@ const App: React.FC = () => {
                                       <ChevronDown className="absolute left-3 top-1/2 -translate-y-1/2 text-white/30" size={16} />
                                       {showCompanyList && (
                                           <div className="absolute z-50 w-full mt-1 bg-[#252529] border border-white/10 rounded-xl shadow-xl max-h-40 overflow-y-auto custom-scrollbar">
-                                              {storeInfo.knownCompanies.filter(c => c.toLowerCase().includes(companySearch.toLowerCase())).map((c, i) => (
-                                                  <button key={i} onClick={() => { setCompanySearch(c); setShowCompanyList(false); }} className="w-full text-right px-4 py-2 text-white hover:bg-white/5 text-sm block border-b border-white/5 last:border-0">{c}</button>
+                                              {customers.filter(c => normalizeCustomerName(c.name).includes(normalizeCustomerName(companySearch))).map(c => (
+                                                  <button key={c.id} onClick={() => { setCompanySearch(c.name); setShowCompanyList(false); }} className="w-full text-right px-4 py-2 text-white hover:bg-white/5 text-sm block border-b border-white/5 last:border-0">{c.name}{c.phone && <span className="text-white/30 font-num mr-2 text-xs">{c.phone}</span>}</button>
                                               ))}
-                                              {companySearch && !storeInfo.knownCompanies.includes(companySearch) && (
-                                                  <button onClick={() => { setShowCompanyList(false); }} className="w-full text-right px-4 py-2 text-sari-purple-light hover:bg-white/5 text-sm block font-bold">استخدام "{companySearch}"</button>
+                                              {companySearch.trim() && !customers.some(c => normalizeCustomerName(c.name) === normalizeCustomerName(companySearch)) && (
+                                                  <button onClick={() => { setShowCompanyList(false); }} className="w-full text-right px-4 py-2 text-sari-purple-light hover:bg-white/5 text-sm block font-bold">إضافة عميل جديد "{companySearch}"</button>
                                               )}
                                           </div>
                                       )}
@@ -1473,20 +4712,349 @@ const App: React.FC = () => {
                           )}
                           
                           {manualForm.type === 'expense' && (<div><label className="text-xs text-white/50 block mb-1">الوصف</label><input type="text" value={manualForm.description} onChange={e => setManualForm({...manualForm, description: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="وصف المصروف" /></div>)}
+                          {manualForm.type === 'expense' && (<div><label className="text-xs text-white/50 block mb-1">التصنيف</label><select value={manualForm.category} onChange={e => setManualForm({...manualForm, category: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="" className="bg-gray-900">{AUTO_CATEGORY_LABEL}</option><option value={UNCATEGORISED_CHOICE} className="bg-gray-900">{UNCATEGORISED_LABEL}</option>{expenseCategories.map(c => <option key={c.id} value={c.id} className="bg-gray-900">{c.name}</option>)}</select></div>)}
                           <div><label className="text-xs text-white/50 block mb-1">المبلغ</label><input type="number" value={manualForm.amount} onChange={e => setManualForm({...manualForm, amount: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="0.00" /></div>
-                          {(manualForm.type === 'sale' || manualForm.type === 'debt') && (<div><label className="text-xs text-white/50 block mb-1">المنتج (يخصم من المخزون)</label><select value={manualForm.itemId} onChange={e => setManualForm({...manualForm, itemId: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="">-- اختر منتج --</option>{inventory.map(i => <option key={i.id} value={i.id}>{i.name} ({i.quantity})</option>)}</select></div>)}
+                          <div><label className="text-xs text-white/50 block mb-1">التاريخ</label><input type="date" style={{colorScheme: 'dark'}} value={manualForm.date} onChange={e => setManualForm({...manualForm, date: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                          {manualForm.type === 'debt' && (<div><label className="text-xs text-white/50 block mb-1">تاريخ الاستحقاق (اختياري)</label><input type="date" style={{colorScheme: 'dark'}} value={manualForm.dueDate} min={manualForm.date} onChange={e => setManualForm({...manualForm, dueDate: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /><div className="flex flex-wrap gap-1 mt-2">{PAYMENT_TERMS_OPTIONS.filter(d => d > 0).map(d => (<button key={d} type="button" onClick={() => setManualForm({...manualForm, dueDate: addDays(manualForm.date || getToday(), d)})} className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/60">{formatPaymentTerms(d)}</button>))}</div></div>)}
+                          {manualForm.rawText && (<div><label className="text-xs text-white/50 block mb-1 flex items-center gap-1"><ScanLine size={12} /> النص المقروء من الإيصال</label><pre className="w-full max-h-28 overflow-y-auto custom-scrollbar bg-black/20 border border-white/10 rounded-xl p-3 text-white/60 text-xs whitespace-pre-wrap text-right" dir="auto">{manualForm.rawText}</pre></div>)}
+                          {(manualForm.type === 'sale' || manualForm.type === 'debt') && (<div><label className="text-xs text-white/50 block mb-1">المنتج (يخصم من المخزون)</label><div className="flex gap-2"><select value={manualForm.itemId} onChange={e => setManualForm({...manualForm, itemId: e.target.value})} className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="">-- اختر منتج --</option>{inventory.map(i => <option key={i.id} value={i.id}>{i.name} ({i.quantity})</option>)}</select><input type="text" placeholder="باركود" onKeyDown={e => { if (e.key !== 'Enter') return; e.preventDefault(); const item = findItemByCode(inventory, e.currentTarget.value); if (item) { setManualForm({...manualForm, itemId: item.id}); e.currentTarget.value = ''; } else setError('لا يوجد منتج بهذا الباركود'); }} className="w-28 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /><button type="button" onClick={() => openBarcodeCamera('manualForm')} disabled={isScanning} title="تصوير الباركود" className="px-3 bg-black/20 hover:bg-white/10 border border-white/10 rounded-xl text-white/60 disabled:opacity-40"><Camera size={16} /></button></div></div>)}
                           <button onClick={handleManualTransaction} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold mt-4">حفظ المعاملة</button>
                       </div>
                   </div>
               </motion.div>
           )}
 
+          {stockHistoryItemId && (() => { /* Stock Movement History */
+              const item = inventory.find(i => i.id === stockHistoryItemId);
+              if (!item) return null;
+              const history = movements.filter(m => m.itemId === item.id).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+              const ledgerQuantity = history.reduce((sum, m) => sum + m.change, 0);
+              return (
+                  <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                      <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-2xl max-h-[90vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                          <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white flex items-center gap-2"><History size={22} className="text-sari-purple-light" /> حركات {item.name}</h3><button onClick={() => setStockHistoryItemId(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                          <div className={`flex justify-between items-center p-4 rounded-2xl border mb-4 text-sm ${ledgerQuantity === item.quantity ? 'bg-emerald-500/5 border-emerald-500/20 text-emerald-400' : 'bg-rose-500/10 border-rose-500/30 text-rose-400'}`}>
+                              <span>{ledgerQuantity === item.quantity ? 'الكمية مطابقة لسجل الحركات' : 'الكمية لا تطابق سجل الحركات'}</span>
+                              <span className="font-num">الحالية {item.quantity} · حسب السجل {ledgerQuantity}</span>
+                          </div>
+                          {can('manageInventory') && <div className="grid grid-cols-12 gap-2 mb-4">
+                              <select value={adjustForm.reason} onChange={e => setAdjustForm({...adjustForm, reason: e.target.value as MovementReason})} className="col-span-3 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-sm">{(['stocktake', 'adjustment', 'damage', 'return'] as MovementReason[]).map(r => <option key={r} value={r} className="bg-gray-900">{MOVEMENT_REASON_LABELS[r]}</option>)}</select>
+                              <input type="number" value={adjustForm.quantity} onChange={e => setAdjustForm({...adjustForm, quantity: e.target.value})} className="col-span-3 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num text-sm" placeholder={adjustForm.reason === 'stocktake' ? 'الكمية المعدودة' : 'الكمية (+/-)'} />
+                              <input type="text" value={adjustForm.note} onChange={e => setAdjustForm({...adjustForm, note: e.target.value})} className="col-span-4 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right text-sm" placeholder="ملاحظة" />
+                              <button onClick={handleStockAdjust} className="col-span-2 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold text-sm">تسجيل</button>
+                          </div>}
+                          <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-white/5 border border-white/5 rounded-2xl">
+                              {history.map(m => (
+                                  <div key={m.id} className="grid grid-cols-12 gap-2 p-3 items-center text-right text-sm">
+                                      <span className={`col-span-2 font-num font-bold ${m.change > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{m.change > 0 ? '+' : ''}{m.change}</span>
+                                      <span className="col-span-2 font-num text-white/40">= {m.quantityAfter}</span>
+                                      <span className="col-span-2 text-white">{MOVEMENT_REASON_LABELS[m.reason]}</span>
+                                      <span className="col-span-3 text-white/50 text-xs">{m.note || (m.transactionId && <span className="font-num">{m.transactionId}</span>)}</span>
+                                      <span className="col-span-3 text-[10px] text-white/40"><div className="font-num">{new Date(m.timestamp).toLocaleString('en-GB')}</div><div>{m.userName}</div></span>
+                                  </div>
+                              ))}
+                              {history.length === 0 && <div className="text-center text-white/30 text-sm py-8">لا توجد حركات</div>}
+                          </div>
+                      </div>
+                  </motion.div>
+              );
+          })()}
+
+          {catalogueImport && ( /* Catalogue Import Preview */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-3xl max-h-[90vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                      <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold text-white flex items-center gap-2"><FileSpreadsheet size={22} className="text-sari-purple-light" /> استيراد المنتجات - {catalogueImport.fileName}</h3><button onClick={() => setCatalogueImport(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="flex gap-3 mb-4 text-sm">
+                          <span className="px-3 py-1 rounded-full bg-emerald-500/10 text-emerald-400 font-num">{catalogueImport.creates.length} جديد</span>
+                          <span className="px-3 py-1 rounded-full bg-blue-500/10 text-blue-400 font-num">{catalogueImport.updates.length} تحديث</span>
+                          {catalogueImport.skipped > 0 && <span className="px-3 py-1 rounded-full bg-white/5 text-white/40 font-num">{catalogueImport.skipped} صف متجاهل</span>}
+                      </div>
+                      <div className="flex-1 overflow-y-auto custom-scrollbar border border-white/5 rounded-2xl divide-y divide-white/5">
+                          <div className="grid grid-cols-12 gap-2 p-3 text-xs text-white/40 font-bold bg-black/20 text-right sticky top-0"><div className="col-span-2">الإجراء</div><div className="col-span-4">المنتج</div><div className="col-span-2">الكمية</div><div className="col-span-2">السعر</div><div className="col-span-2">الكلفة</div></div>
+                          {catalogueImport.creates.map(i => (
+                              <div key={i.id} className="grid grid-cols-12 gap-2 p-3 text-sm text-right items-center">
+                                  <span className="col-span-2 text-emerald-400 text-xs font-bold">جديد</span>
+                                  <span className="col-span-4 text-white">{i.name}{i.sku && <span className="text-white/30 font-num text-xs mr-2">{i.sku}</span>}</span>
+                                  <span className="col-span-2 font-num text-white/70">{i.quantity}</span>
+                                  <span className="col-span-2 font-num text-white/70">{i.price}</span>
+                                  <span className="col-span-2 font-num text-white/70">{i.cost}</span>
+                              </div>
+                          ))}
+                          {catalogueImport.updates.map(({ before, after }) => {
+                              const field = (k: 'quantity' | 'price' | 'cost') => before[k] === after[k] ? <span className="text-white/40">{after[k]}</span> : <span><span className="text-white/30 line-through ml-1">{before[k]}</span><span className="text-blue-400">{after[k]}</span></span>;
+                              return (
+                                  <div key={after.id} className="grid grid-cols-12 gap-2 p-3 text-sm text-right items-center">
+                                      <span className="col-span-2 text-blue-400 text-xs font-bold">تحديث</span>
+                                      <span className="col-span-4 text-white">{after.name}{after.sku && <span className="text-white/30 font-num text-xs mr-2">{after.sku}</span>}</span>
+                                      <span className="col-span-2 font-num">{field('quantity')}</span>
+                                      <span className="col-span-2 font-num">{field('price')}</span>
+                                      <span className="col-span-2 font-num">{field('cost')}</span>
+                                  </div>
+                              );
+                          })}
+                      </div>
+                      <button onClick={handleCatalogueImportConfirm} className="w-full py-4 mt-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold">تأكيد الاستيراد</button>
+                  </div>
+              </motion.div>
+          )}
+
+          {purchaseForm && ( /* Goods Receipt Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-2xl max-h-[90vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white flex items-center gap-2"><Truck size={22} className="text-sari-purple-light" /> استلام بضاعة من مورد</h3><button onClick={() => setPurchaseForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="space-y-4 overflow-y-auto custom-scrollbar">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div className="md:col-span-2"><label className="text-xs text-white/50 block mb-1">المورد</label><input type="text" list="supplier-list" value={purchaseForm.supplier} onChange={e => setPurchaseForm({...purchaseForm, supplier: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="اختر أو اكتب اسم المورد" /><datalist id="supplier-list">{customers.filter(c => c.isSupplier).map(c => <option key={c.id} value={c.name} />)}</datalist></div>
+                              <div><label className="text-xs text-white/50 block mb-1">التاريخ</label><input type="date" style={{colorScheme: 'dark'}} value={purchaseForm.date} onChange={e => setPurchaseForm({...purchaseForm, date: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                          </div>
+                          <div className="flex gap-4">
+                              <div className="flex-1 flex gap-2 bg-black/20 p-1 rounded-xl">{CURRENCIES.map(c => (<button key={c} onClick={() => setPurchaseForm({...purchaseForm, currency: c})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${purchaseForm.currency === c ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{c}</button>))}</div>
+                              <div className="flex-1 flex gap-2 bg-black/20 p-1 rounded-xl">{[true, false].map(paid => (<button key={String(paid)} onClick={() => setPurchaseForm({...purchaseForm, paid})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${purchaseForm.paid === paid ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{paid ? 'مدفوع' : 'آجل (مستحق للمورد)'}</button>))}</div>
+                          </div>
+                          <div className="space-y-2">
+                              <div className="grid grid-cols-12 gap-2 text-xs text-white/40 font-bold px-1"><div className="col-span-6">المنتج</div><div className="col-span-2">الكمية</div><div className="col-span-3">كلفة الوحدة</div><div className="col-span-1"></div></div>
+                              {purchaseForm.lines.map((line, idx) => {
+                                  const setLine = (patch: Partial<typeof line>) => setPurchaseForm({ ...purchaseForm, lines: purchaseForm.lines.map((l, i) => i === idx ? { ...l, ...patch } : l) });
+                                  return (
+                                      <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                                          <select value={line.itemId} onChange={e => setLine({ itemId: e.target.value })} className="col-span-6 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right text-sm"><option value="" className="bg-gray-900">-- اختر منتج --</option>{inventory.map(i => <option key={i.id} value={i.id} className="bg-gray-900">{i.name} ({i.quantity})</option>)}</select>
+                                          <input type="number" value={line.quantity} onChange={e => setLine({ quantity: e.target.value })} className="col-span-2 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num text-sm" placeholder="0" />
+                                          <input type="number" value={line.unitCost} onChange={e => setLine({ unitCost: e.target.value })} className="col-span-3 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num text-sm" placeholder="0.00" />
+                                          <button onClick={() => setPurchaseForm({ ...purchaseForm, lines: purchaseForm.lines.filter((_, i) => i !== idx) })} disabled={purchaseForm.lines.length === 1} className="col-span-1 h-full flex items-center justify-center rounded-xl text-red-400 hover:bg-red-500/10 disabled:opacity-30"><Trash2 size={16} /></button>
+                                      </div>
+                                  );
+                              })}
+                              <button onClick={() => setPurchaseForm({ ...purchaseForm, lines: [...purchaseForm.lines, { itemId: '', quantity: '', unitCost: '' }] })} className="w-full py-2 border border-dashed border-white/10 hover:border-white/30 text-white/50 hover:text-white rounded-xl text-sm flex items-center justify-center gap-2 transition-colors"><Plus size={16} /> سطر جديد</button>
+                          </div>
+                          <div className="flex justify-between items-center p-4 rounded-2xl bg-white/5 border border-white/5">
+                              <span className="text-white/50 text-sm">الإجمالي</span>
+                              <span className="text-xl font-bold text-white font-num">{formatCurrency(purchaseForm.lines.reduce((sum, l) => sum + (parseFloat(l.quantity) || 0) * (parseFloat(l.unitCost) || 0), 0), purchaseForm.currency)}</span>
+                          </div>
+                          <p className="text-xs text-white/40">تُضاف الكميات إلى المخزن وتُحدّث كلفة كل منتج بالمتوسط المرجح، ويُسجل المبلغ كمصروف باسم المورد.</p>
+                          <button onClick={handlePurchaseSave} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold">حفظ الاستلام</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
+          {invoiceTx && ( /* Invoice / Receipt Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-4xl max-h-[95vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                      <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold text-white flex items-center gap-2"><Printer size={20} className="text-sari-purple-light" /> {RECEIPT_TITLES[invoiceTx.type]} <span className="font-num text-white/40 text-sm">{formatInvoiceNumber(invoiceTx.invoiceNumber || 0)}</span></h3><button onClick={() => setInvoiceTx(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="flex gap-2 bg-black/20 p-1 rounded-xl mb-4">{(Object.keys(RECEIPT_LAYOUTS) as ReceiptLayout[]).map(l => (<button key={l} onClick={() => setReceiptLayout(l)} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${receiptLayout === l ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{RECEIPT_LAYOUTS[l].label}</button>))}</div>
+                      <div className="flex-1 min-h-0 overflow-auto custom-scrollbar bg-white/5 rounded-2xl p-4 flex justify-center">
+                          <iframe ref={receiptFrameRef} title="receipt" srcDoc={buildReceiptHtml(invoiceTx, storeInfo, receiptLayout, getClientName(invoiceTx))} className="bg-white shadow-xl h-[60vh] flex-shrink-0" style={{ width: `${RECEIPT_LAYOUTS[receiptLayout].widthMm}mm` }} />
+                      </div>
+                      <div className="flex gap-3 mt-4">
+                          <button onClick={() => receiptFrameRef.current?.contentWindow?.print()} className="flex-1 py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold flex items-center justify-center gap-2"><Printer size={18} /> طباعة</button>
+                          <button onClick={handleInvoicePdf} disabled={isExportingPdf} className="flex-1 py-4 bg-white/5 hover:bg-white/10 border border-white/10 disabled:opacity-40 text-white rounded-xl font-bold flex items-center justify-center gap-2">{isExportingPdf ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />} تحميل PDF</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
+          {statementForm && ( /* Client Statement Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-5xl max-h-[95vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                      <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold text-white flex items-center gap-2"><FileText size={20} className="text-sari-purple-light" /> كشف حساب - {statementForm.name}</h3><button onClick={() => setStatementForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                          <div><label className="text-xs text-white/50 block mb-1">من</label><input type="date" style={{colorScheme: 'dark'}} value={statementForm.start} onChange={e => setStatementForm({...statementForm, start: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                          <div><label className="text-xs text-white/50 block mb-1">إلى</label><input type="date" style={{colorScheme: 'dark'}} value={statementForm.end} onChange={e => setStatementForm({...statementForm, end: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                      </div>
+                      <div className="flex gap-3 mb-4 flex-wrap">{statementSections.map(s => <span key={s.currency} className="px-3 py-1 rounded-full bg-white/5 text-sm text-white/70">{s.currency}: <span className="font-num">{formatCurrency(s.opening, s.currency)}</span> ← <span className="font-num font-bold text-white">{formatCurrency(s.closing, s.currency)}</span></span>)}</div>
+                      <div className="flex-1 min-h-0 overflow-auto custom-scrollbar bg-white/5 rounded-2xl p-4 flex justify-center">
+                          <iframe ref={statementFrameRef} title="statement" srcDoc={buildStatementHtml(storeInfo, statementForm, statementForm.start, statementForm.end, statementSections)} className="bg-white shadow-xl h-[55vh] flex-shrink-0" style={{ width: '210mm' }} />
+                      </div>
+                      <div className="flex gap-3 mt-4">
+                          <button onClick={() => statementFrameRef.current?.contentWindow?.print()} className="flex-1 py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold flex items-center justify-center gap-2"><Printer size={18} /> طباعة</button>
+                          <button onClick={handleStatementPdf} disabled={isExportingPdf} className="flex-1 py-4 bg-white/5 hover:bg-white/10 border border-white/10 disabled:opacity-40 text-white rounded-xl font-bold flex items-center justify-center gap-2">{isExportingPdf ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />} PDF</button>
+                          <button onClick={handleStatementXlsx} className="flex-1 py-4 bg-emerald-500/10 hover:bg-emerald-500 text-emerald-400 hover:text-white rounded-xl font-bold flex items-center justify-center gap-2 transition-colors"><FileSpreadsheet size={18} /> Excel</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
+          {recurringForm && ( /* Recurring Template Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-3xl p-6 shadow-2xl">
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">{recurringForm.id ? 'تعديل عملية متكررة' : 'عملية متكررة جديدة'}</h3><button onClick={() => setRecurringForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="space-y-4">
+                          <div className="flex gap-2 bg-black/20 p-1 rounded-xl">{(['expense', 'sale'] as const).map(t => (<button key={t} onClick={() => setRecurringForm({...recurringForm, type: t})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${recurringForm.type === t ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{t === 'expense' ? 'مصروف' : 'إيراد'}</button>))}</div>
+                          <div><label className="text-xs text-white/50 block mb-1">الاسم</label><input type="text" value={recurringForm.name} onChange={e => setRecurringForm({...recurringForm, name: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="مثال: ايجار المحل" /></div>
+                          {recurringForm.type === 'expense' && <div><label className="text-xs text-white/50 block mb-1">التصنيف</label><select value={recurringForm.category} onChange={e => setRecurringForm({...recurringForm, category: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="" className="bg-gray-900">{AUTO_CATEGORY_LABEL}</option><option value={UNCATEGORISED_CHOICE} className="bg-gray-900">{UNCATEGORISED_LABEL}</option>{expenseCategories.map(c => <option key={c.id} value={c.id} className="bg-gray-900">{c.name}</option>)}</select></div>}
+                          <div className="flex gap-2">
+                              <div className="flex-1"><label className="text-xs text-white/50 block mb-1">المبلغ</label><input type="number" value={recurringForm.amount} onChange={e => setRecurringForm({...recurringForm, amount: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">العملة</label><select value={recurringForm.currency} onChange={e => setRecurringForm({...recurringForm, currency: e.target.value as Currency})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white">{CURRENCIES.map(c => <option key={c} value={c} className="bg-gray-900">{c}</option>)}</select></div>
+                          </div>
+                          <div className="flex gap-2 bg-black/20 p-1 rounded-xl">{(Object.keys(RECURRENCE_LABELS) as RecurrenceCadence[]).map(c => (<button key={c} onClick={() => setRecurringForm({...recurringForm, cadence: c})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${recurringForm.cadence === c ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{RECURRENCE_LABELS[c]}</button>))}</div>
+                          {recurringForm.cadence === 'custom' && <div><label className="text-xs text-white/50 block mb-1">التكرار كل (يوم)</label><input type="number" min={1} value={recurringForm.intervalDays} onChange={e => setRecurringForm({...recurringForm, intervalDays: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>}
+                          <div className="grid grid-cols-2 gap-2">
+                              <div><label className="text-xs text-white/50 block mb-1">تاريخ البدء</label><input type="date" style={{colorScheme: 'dark'}} value={recurringForm.startDate} onChange={e => setRecurringForm({...recurringForm, startDate: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">تاريخ الانتهاء (اختياري)</label><input type="date" style={{colorScheme: 'dark'}} value={recurringForm.endDate} min={recurringForm.startDate} onChange={e => setRecurringForm({...recurringForm, endDate: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                          </div>
+                          <label className="flex items-center gap-2 text-sm text-white/60 cursor-pointer"><input type="checkbox" checked={recurringForm.autoPost} onChange={e => setRecurringForm({...recurringForm, autoPost: e.target.checked})} className="accent-sari-purple" /> تسجيل تلقائي دون تأكيد</label>
+                          <button onClick={handleRecurringSave} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold mt-2">حفظ</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
+          {reminderForm && ( /* Debt Reminder Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-2xl max-h-[90vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                      {(() => {
+                          const clients = reminderForm.keys.map(k => debtList.find(c => c.key === k)).filter((c): c is typeof debtList[number] => !!c);
+                          const single = reminderForm.keys.length === 1 ? clients[0] : undefined;
+                          const today = getToday();
+                          const channelButtons = (client: typeof debtList[number], message: string) => (
+                              <div className="flex gap-2">
+                                  <button onClick={() => handleSendReminder(client, 'whatsapp', message)} disabled={!client.phone} className="px-3 py-2 rounded-lg bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500 hover:text-white disabled:opacity-30 text-xs font-bold transition-colors">{REMINDER_CHANNEL_LABELS.whatsapp}</button>
+                                  <button onClick={() => handleSendReminder(client, 'sms', message)} disabled={!client.phone} className="px-3 py-2 rounded-lg bg-blue-500/10 text-blue-400 hover:bg-blue-500 hover:text-white disabled:opacity-30 text-xs font-bold transition-colors">{REMINDER_CHANNEL_LABELS.sms}</button>
+                                  <button onClick={() => handleSendReminder(client, 'copy', message)} className="px-3 py-2 rounded-lg bg-white/5 text-white/60 hover:bg-white/10 hover:text-white text-xs font-bold transition-colors flex items-center gap-1"><Copy size={12} /> {REMINDER_CHANNEL_LABELS.copy}</button>
+                              </div>
+                          );
+                          return (<>
+                              <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold text-white flex items-center gap-2"><MessageCircle size={20} className="text-emerald-400" /> {single ? `تذكير ${single.name}` : `تذكير جماعي (${clients.length})`}</h3><button onClick={() => setReminderForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                              <div className="mb-4"><label className="text-xs text-white/50 block mb-1">القالب</label><select value={reminderForm.templateId} onChange={e => setReminderForm({ ...reminderForm, templateId: e.target.value, message: single ? buildReminderMessage(single, e.target.value) : '' })} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right">{reminderTemplates.map(t => <option key={t.id} value={t.id} className="bg-gray-900">{t.name}</option>)}</select></div>
+                              {single ? (
+                                  <div className="space-y-4 overflow-y-auto custom-scrollbar">
+                                      <textarea value={reminderForm.message} onChange={e => setReminderForm({ ...reminderForm, message: e.target.value })} rows={6} dir="auto" className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-sm" />
+                                      <div className="flex justify-between items-center"><span className="text-xs text-white/40 font-num">{single.phone || 'لا يوجد رقم هاتف'}</span>{channelButtons(single, reminderForm.message)}</div>
+                                      <div className="border-t border-white/5 pt-4">
+                                          <div className="text-xs text-white/50 font-bold mb-2 flex items-center gap-1"><History size={12} /> سجل التذكيرات</div>
+                                          {(remindersByClient.get(single.key) || []).map(r => (
+                                              <div key={r.id} className="flex justify-between text-xs py-1.5 border-b border-white/5 last:border-0">
+                                                  <span className="text-white/60">{REMINDER_CHANNEL_LABELS[r.channel]}{r.userName && ` · ${r.userName}`}</span>
+                                                  <span className="font-num text-white/40">{new Date(r.sentAt).toLocaleString('en-GB')}</span>
+                                              </div>
+                                          ))}
+                                          {!remindersByClient.get(single.key)?.length && <div className="text-xs text-white/30">لا توجد تذكيرات سابقة</div>}
+                                      </div>
+                                  </div>
+                              ) : (
+                                  <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-white/5 border border-white/5 rounded-2xl">
+                                      {clients.map(c => {
+                                          const message = buildReminderMessage(c, reminderForm.templateId);
+                                          const remindedToday = remindersByClient.get(c.key)?.[0]?.sentAt.slice(0, 10) === today;
+                                          return (
+                                              <div key={c.key} className="p-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                                                  <div className="min-w-0">
+                                                      <div className="text-white text-sm font-bold flex items-center gap-2">{c.name}{remindedToday && <span className="text-[10px] text-emerald-400 font-normal flex items-center gap-0.5"><Check size={10} /> أُرسل اليوم</span>}</div>
+                                                      <div className="text-xs text-white/40"><span className="font-num">{c.phone || 'لا يوجد رقم'}</span> · <span className="font-num text-rose-400">{formatTotals(c.total, 'mixed')}</span></div>
+                                                  </div>
+                                                  {channelButtons(c, message)}
+                                              </div>
+                                          );
+                                      })}
+                                  </div>
+                              )}
+                          </>);
+                      })()}
+                  </div>
+              </motion.div>
+          )}
+
+          {refundForm && ( /* Refund Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg rounded-3xl p-6 shadow-2xl max-h-[90vh] overflow-y-auto custom-scrollbar">
+                      {(() => {
+                          const sale = transactions.find(t => t.id === refundForm.saleId);
+                          if (!sale) return null;
+                          const refundable = sale.amount - getRefundedAmount(sale.id);
+                          return (<>
+                              <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white flex items-center gap-2"><RotateCcw size={20} className="text-rose-400" /> استرجاع <span className="font-num text-white/40 text-sm">{sale.id}</span></h3><button onClick={() => setRefundForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                              <div className="space-y-4">
+                                  <div className="flex justify-between text-sm text-white/50"><span>{sale.client} — <span className="font-num">{sale.date}</span></span><span>المتبقي للاسترجاع <span className="font-num text-white font-bold">{formatCurrency(refundable, sale.currency)}</span></span></div>
+                                  {refundForm.lines.length > 0 && (
+                                      <div className="border border-white/5 rounded-xl divide-y divide-white/5">
+                                          {refundForm.lines.map((l, idx) => (
+                                              <div key={l.itemId} className="flex items-center gap-3 p-3">
+                                                  <span className="flex-1 text-white text-sm">{l.name}<span className="text-white/30 font-num text-xs mr-2">{formatCurrency(l.unitNet, sale.currency)}</span></span>
+                                                  <input type="number" min={0} max={l.max} value={l.quantity} onChange={e => handleRefundLineQuantity(idx, e.target.value)} className="w-20 bg-black/20 border border-white/10 rounded-lg p-2 text-white text-right font-num" placeholder="0" />
+                                                  <span className="text-white/30 text-xs font-num">/ {l.max}</span>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  )}
+                                  {refundForm.lines.length > 0 && sale.importBatchId && <div className="text-xs text-white/40">عملية مستوردة لم تُخصم من المخزون، لذلك لا تُعاد المواد المرتجعة إليه</div>}
+                                  {refundForm.lines.length > 0 && !sale.importBatchId && <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer"><input type="checkbox" checked={refundForm.restock} onChange={e => setRefundForm({...refundForm, restock: e.target.checked})} className="accent-sari-purple" /> إعادة المواد المرتجعة إلى المخزون</label>}
+                                  <div><label className="text-xs text-white/50 block mb-1">المبلغ المسترجع</label><div className="flex gap-2"><input type="number" value={refundForm.amount} onChange={e => setRefundForm({...refundForm, amount: e.target.value})} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="0.00" /><button onClick={() => setRefundForm({...refundForm, lines: refundForm.lines.map(l => ({...l, quantity: String(l.max)})), amount: String(refundable)})} className="px-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white/70 text-sm">كامل</button></div></div>
+                                  <button onClick={handleRefundSave} className="w-full py-4 bg-rose-500 hover:bg-rose-600 text-white rounded-xl font-bold mt-4">تأكيد الاسترجاع</button>
+                              </div>
+                          </>);
+                      })()}
+                  </div>
+              </motion.div>
+          )}
+
+          {paymentForm && ( /* Debt Payment Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg rounded-3xl p-6 shadow-2xl">
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">دفعة من {paymentForm.client}</h3><button onClick={() => setPaymentForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="space-y-4">
+                          <div className="flex gap-2 bg-black/20 p-1 rounded-xl">{CURRENCIES.map(c => (<button key={c} onClick={() => setPaymentForm({...paymentForm, currency: c})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${paymentForm.currency === c ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{c}</button>))}</div>
+                          <div className="flex justify-between text-sm text-white/50"><span>الرصيد المستحق</span><span className="font-num text-rose-400 font-bold">{formatCurrency(debtList.find(c => c.key === paymentForm.key)?.total.native[paymentForm.currency] || 0, paymentForm.currency)}</span></div>
+                          <div><label className="text-xs text-white/50 block mb-1">المبلغ المدفوع</label><input type="number" value={paymentForm.amount} onChange={e => setPaymentForm({...paymentForm, amount: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="0.00" /></div>
+                          <div><label className="text-xs text-white/50 block mb-1">تاريخ الدفع</label><input type="date" style={{colorScheme: 'dark'}} value={paymentForm.date} onChange={e => setPaymentForm({...paymentForm, date: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                          <p className="text-xs text-white/40">تُخصم الدفعة من أقدم الديون أولاً، وتبقى تواريخ الديون الأصلية كما هي.</p>
+                          <button onClick={handleRecordPayment} className="w-full py-4 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl font-bold mt-4">تسجيل الدفعة</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
+          {passwordResetForm && ( /* Password Reset Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-md rounded-3xl p-6 shadow-2xl">
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white flex items-center gap-2"><Key size={20} className="text-sari-purple-light" /> كلمة مرور جديدة - {users.find(u => u.id === passwordResetForm.userId)?.fullName}</h3><button onClick={() => setPasswordResetForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="space-y-4">
+                          <p className="text-sm text-white/40">يُدخل صاحب الحساب كلمة المرور الجديدة بنفسه.</p>
+                          <input type="password" autoComplete="new-password" value={passwordResetForm.password} onChange={e => setPasswordResetForm({...passwordResetForm, password: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white" placeholder="كلمة المرور الجديدة" />
+                          <input type="password" autoComplete="new-password" value={passwordResetForm.confirm} onChange={e => setPasswordResetForm({...passwordResetForm, confirm: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white" placeholder="تأكيد كلمة المرور" />
+                          <button onClick={handleResetUserPassword} disabled={!passwordResetForm.password} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep disabled:opacity-40 text-white rounded-xl font-bold mt-4">حفظ كلمة المرور</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
+          {installmentForm && ( /* Installment Plan Modal */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg rounded-3xl p-6 shadow-2xl">
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">خطة أقساط - {installmentForm.client}</h3><button onClick={() => setInstallmentForm(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="space-y-4">
+                          <div><label className="text-xs text-white/50 block mb-1">الدين</label><select value={installmentForm.debtId} onChange={e => setInstallmentForm({...installmentForm, debtId: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right">{(debtList.find(c => c.key === installmentForm.key)?.debts || []).map(d => <option key={d.id} value={d.id} className="bg-gray-900">{d.date} — {formatCurrency(getOutstanding(d), d.currency)}{d.installmentPlan ? ' (مقسط)' : ''}</option>)}</select></div>
+                          <div className="grid grid-cols-2 gap-4">
+                              <div><label className="text-xs text-white/50 block mb-1">عدد الأقساط (شهرياً)</label><input type="number" min={1} value={installmentForm.count} onChange={e => setInstallmentForm({...installmentForm, count: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">تاريخ أول قسط</label><input type="date" style={{colorScheme: 'dark'}} value={installmentForm.firstDueDate} onChange={e => setInstallmentForm({...installmentForm, firstDueDate: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                          </div>
+                          {(() => {
+                              const debt = transactions.find(t => t.id === installmentForm.debtId);
+                              const schedule = debt ? getInstallmentSchedule(debt) : [];
+                              return schedule.length > 0 && (
+                                  <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                      <div className="text-xs text-white/50 mb-1">الخطة الحالية (ستُستبدل عند الحفظ)</div>
+                                      {schedule.map((i, idx) => (
+                                          <div key={idx} className="flex justify-between text-xs px-3 py-2 rounded-lg bg-white/5">
+                                              <span className="font-num text-white/60">{i.dueDate}</span>
+                                              <span className={`font-num ${i.paid ? 'text-emerald-400 line-through' : 'text-white'}`}>{formatCurrency(i.amount, debt!.currency)}</span>
+                                          </div>
+                                      ))}
+                                  </div>
+                              );
+                          })()}
+                          <button onClick={handleSaveInstallments} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold mt-4">حفظ الخطة</button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
           {itemModalOpen && (
               <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
                   <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg rounded-3xl p-6 shadow-2xl">
                       <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">{newItemForm.id ? 'تعديل منتج' : 'منتج جديد'}</h3><button onClick={() => setItemModalOpen(false)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
                       <div className="space-y-4">
                           <input type="text" value={newItemForm.name} onChange={e => setNewItemForm({...newItemForm, name: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="اسم المنتج" />
+                          <div className="grid grid-cols-2 gap-4"><input type="text" value={newItemForm.sku || ''} onChange={e => setNewItemForm({...newItemForm, sku: e.target.value || undefined})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="الرمز / SKU (اختياري)" /><div className="flex gap-2"><input type="text" value={newItemForm.barcode || ''} onChange={e => setNewItemForm({...newItemForm, barcode: e.target.value || undefined})} onKeyDown={e => { if (e.key === 'Enter') e.preventDefault(); }} className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="الباركود" /><button type="button" onClick={() => openBarcodeCamera('itemForm')} disabled={isScanning} title="تصوير الباركود" className="px-3 bg-black/20 hover:bg-white/10 border border-white/10 rounded-xl text-white/60 disabled:opacity-40"><Camera size={16} /></button></div></div>
                           <div className="grid grid-cols-2 gap-4"><input type="number" value={newItemForm.price} onChange={e => setNewItemForm({...newItemForm, price: parseFloat(e.target.value)})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="السعر" /><input type="number" value={newItemForm.quantity} onChange={e => setNewItemForm({...newItemForm, quantity: parseInt(e.target.value)})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="الكمية" /></div>
                           <div className="grid grid-cols-2 gap-4"><input type="text" value={newItemForm.category} onChange={e => setNewItemForm({...newItemForm, category: e.target.value})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" placeholder="القسم" /><input type="number" value={newItemForm.minLevel} onChange={e => setNewItemForm({...newItemForm, minLevel: parseInt(e.target.value)})} className="bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" placeholder="الحد الأدنى" /></div>
                           <button onClick={handleInventorySave} className="w-full py-4 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold mt-4">حفظ</button>
@@ -1495,8 +5063,141 @@ const App: React.FC = () => {
               </motion.div>
           )}
           
+          {importWizard && importPreview && ( /* Import Column-Mapping Wizard */
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-5xl max-h-[90vh] rounded-3xl p-6 shadow-2xl flex flex-col" dir="rtl">
+                      <div className="flex justify-between items-center mb-6">
+                          <div>
+                              <h3 className="text-xl font-bold text-white flex items-center gap-2"><FileSpreadsheet className="text-sari-purple" size={22} /> معاينة الاستيراد</h3>
+                              <p className="text-xs text-white/40 mt-1 font-num">{importWizard.fileName} · {importPreview.dataRowCount} صف</p>
+                          </div>
+                          <button onClick={() => setImportWizard(null)} className="text-white/50 hover:text-white"><X size={24} /></button>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                          <div>
+                              <label className="text-xs text-white/50 block mb-1">ملف التعيين المحفوظ</label>
+                              <div className="flex gap-2">
+                                  <select value={importWizard.profileId} onChange={e => handleWizardProfile(e.target.value)} className="flex-1 bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right">
+                                      <option value="" className="bg-gray-900">-- بدون ملف --</option>
+                                      {importProfiles.map(p => <option key={p.id} value={p.id} className="bg-gray-900">{p.name}</option>)}
+                                  </select>
+                                  {importWizard.profileId && <button onClick={() => handleDeleteImportProfile(importWizard.profileId)} className="px-3 rounded-xl bg-red-500/10 text-red-400 hover:bg-red-500 hover:text-white transition-colors"><Trash2 size={16} /></button>}
+                              </div>
+                          </div>
+                          <div>
+                              <label className="text-xs text-white/50 block mb-1">صف العناوين</label>
+                              <input type="number" min={1} max={importWizard.rows.length} value={importWizard.headerRowIndex + 1} onChange={e => handleWizardHeaderRow(parseInt(e.target.value) - 1 || 0)} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" />
+                          </div>
+                      </div>
+
+                      <div className="flex-1 min-h-0 overflow-auto custom-scrollbar border border-white/10 rounded-2xl">
+                          <table className="w-full text-xs text-right">
+                              <thead className="sticky top-0 bg-[#1a1a1c] z-10">
+                                  <tr>
+                                      {Array.from({ length: importPreview.columnCount }).map((_, col) => {
+                                          const field = (Object.keys(importWizard.mapping) as ImportField[]).find(f => importWizard.mapping[f] === col) || '';
+                                          return (
+                                              <th key={col} className="p-2 border-b border-white/10 min-w-[130px]">
+                                                  <select value={field} onChange={e => handleWizardColumnField(col, e.target.value as ImportField | '')} className={`w-full rounded-lg p-2 text-xs font-bold border ${field ? 'bg-sari-purple/20 border-sari-purple/50 text-white' : 'bg-black/20 border-white/10 text-white/40'}`}>
+                                                      <option value="" className="bg-gray-900">تجاهل</option>
+                                                      {IMPORT_FIELDS.map(f => <option key={f.id} value={f.id} className="bg-gray-900">{f.label}{f.required ? ' *' : ''}</option>)}
+                                                  </select>
+                                              </th>
+                                          );
+                                      })}
+                                  </tr>
+                                  <tr className="bg-black/30">
+                                      {Array.from({ length: importPreview.columnCount }).map((_, col) => <th key={col} className="p-2 text-white/70 font-bold border-b border-white/10 truncate max-w-[200px]">{String(importPreview.header[col] ?? '')}</th>)}
+                                  </tr>
+                              </thead>
+                              <tbody className="divide-y divide-white/5">
+                                  {importPreview.sample.map((row, r) => (
+                                      <tr key={r} className="hover:bg-white/5">
+                                          {Array.from({ length: importPreview.columnCount }).map((_, col) => <td key={col} className="p-2 text-white/60 font-num truncate max-w-[200px]">{String(row[col] ?? '')}</td>)}
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+
+                      {importPreview.missing.length > 0 && (
+                          <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl flex items-center gap-2 text-amber-200 text-sm"><AlertTriangle size={16} /> يرجى تحديد عمود: {importPreview.missing.map(f => f.label).join('، ')}</div>
+                      )}
+
+                      {importPreview.duplicateCount > 0 && (
+                          <div className="mt-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3 text-rose-200 text-sm">
+                              <span className="flex items-center gap-2"><Copy size={16} /> <span className="font-num">{importPreview.duplicateCount}</span> صف تم استيراده مسبقاً</span>
+                              <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+                                  {(['skip', 'overwrite'] as const).map(mode => (
+                                      <button key={mode} onClick={() => setImportWizard({ ...importWizard, duplicateMode: mode })} className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${importWizard.duplicateMode === mode ? 'bg-rose-500 text-white' : 'text-white/50 hover:text-white'}`}>{mode === 'skip' ? 'تخطي المكرر' : 'استبدال المكرر'}</button>
+                                  ))}
+                              </div>
+                          </div>
+                      )}
+
+                      <div className="mt-4 flex flex-col md:flex-row gap-3 items-stretch md:items-center">
+                          <div className="flex gap-2 flex-1">
+                              <input type="text" value={profileNameInput} onChange={e => setProfileNameInput(e.target.value)} placeholder="اسم الملف (مثال: POS export)" className="flex-1 bg-black/20 border border-white/10 rounded-xl px-4 py-3 text-white text-right text-sm" />
+                              <button onClick={handleSaveImportProfile} disabled={!profileNameInput.trim()} className="px-4 bg-white/5 hover:bg-white/10 text-white rounded-xl font-bold text-sm flex items-center gap-2 disabled:opacity-40"><Save size={16} /> حفظ التعيين</button>
+                          </div>
+                          <button onClick={handleImportConfirm} disabled={importPreview.missing.length > 0 || importPreview.validCount === 0 || (importWizard.duplicateMode === 'skip' && importPreview.duplicateCount === importPreview.validCount)} className="px-8 py-3 bg-sari-purple hover:bg-sari-purple-deep text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed">
+                              <Upload size={18} /> استيراد <span className="font-num">{importWizard.duplicateMode === 'skip' ? importPreview.validCount - importPreview.duplicateCount : importPreview.validCount}</span> عملية
+                          </button>
+                      </div>
+                  </div>
+              </motion.div>
+          )}
+
           {editingItem && ( /* Edit Modal */ 
-              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"><div className="bg-[#1a1a1c] border border-white/10 w-full max-w-lg rounded-3xl p-6 shadow-2xl"><div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">تعديل العملية</h3><button onClick={() => setEditingItem(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div><div className="space-y-4"><div><label className="text-xs text-white/50 block mb-1">الوصف / العميل</label><input type="text" value={editingItem.client} onChange={e => setEditingItem({...editingItem, client: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" /></div><div><label className="text-xs text-white/50 block mb-1">المبلغ</label><input type="number" value={editingItem.amount} onChange={e => setEditingItem({...editingItem, amount: parseFloat(e.target.value)})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div><div><label className="text-xs text-white/50 block mb-1">التاريخ</label><input type="date" value={editingItem.date} onChange={e => setEditingItem({...editingItem, date: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div><button onClick={handleEditSave} className="w-full py-4 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl font-bold mt-4">حفظ التعديلات</button></div></div></motion.div>
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+                  <div className="bg-[#1a1a1c] border border-white/10 w-full max-w-2xl max-h-[90vh] rounded-3xl p-6 shadow-2xl flex flex-col">
+                      <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold text-white">تعديل العملية <span className="text-white/30 font-num text-sm">{editingItem.id}</span></h3><button onClick={() => setEditingItem(null)} className="text-white/50 hover:text-white"><X size={24} /></button></div>
+                      <div className="space-y-4 overflow-y-auto custom-scrollbar">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div><label className="text-xs text-white/50 block mb-1">النوع</label><select value={editingItem.type} disabled={editingItem.type === 'payment'} onChange={e => setEditingItem({...editingItem, type: e.target.value as TransactionType})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right disabled:opacity-50">{(['sale', 'debt', 'expense', 'cash', 'refund', 'payment'] as TransactionType[]).filter(t => t !== 'payment' || editingItem.type === 'payment').map(t => <option key={t} value={t} className="bg-gray-900">{t}</option>)}</select></div>
+                              <div><label className="text-xs text-white/50 block mb-1">الحالة</label><select value={editingItem.status} onChange={e => setEditingItem({...editingItem, status: e.target.value as TransactionStatus})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right">{(['completed', 'pending', 'failed'] as TransactionStatus[]).map(st => <option key={st} value={st} className="bg-gray-900">{st}</option>)}</select></div>
+                              <div><label className="text-xs text-white/50 block mb-1">العملة</label><div className="flex gap-2 bg-black/20 p-1 rounded-xl">{CURRENCIES.map(c => (<button key={c} onClick={() => setEditingItem({...editingItem, currency: c})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${editingItem.currency === c ? 'bg-sari-purple text-white shadow' : 'text-white/40'}`}>{c}</button>))}</div></div>
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <div><label className="text-xs text-white/50 block mb-1">الوصف / العميل</label><input type="text" list="edit-customer-list" value={editingItem.client} onChange={e => setEditingItem({...editingItem, client: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" /><datalist id="edit-customer-list">{customers.map(c => <option key={c.id} value={c.name} />)}</datalist></div>
+                              <div><label className="text-xs text-white/50 block mb-1">الهاتف</label><input type="tel" value={editingItem.clientPhone || ''} onChange={e => setEditingItem({...editingItem, clientPhone: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">المبلغ</label><input type="number" value={editingItem.amount} disabled={!!(editingItem.saleLines?.length || editingItem.purchaseLines?.length)} onChange={e => setEditingItem({...editingItem, amount: parseFloat(e.target.value)})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num disabled:opacity-50" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">طريقة الدفع</label><input type="text" value={editingItem.method} onChange={e => setEditingItem({...editingItem, method: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">التاريخ</label><input type="date" style={{colorScheme: 'dark'}} value={editingItem.date} onChange={e => setEditingItem({...editingItem, date: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                              <div><label className="text-xs text-white/50 block mb-1">الوقت</label><input type="text" value={editingItem.time} onChange={e => setEditingItem({...editingItem, time: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>
+                              {editingItem.type === 'expense' && <div className="md:col-span-2"><label className="text-xs text-white/50 block mb-1">التصنيف</label><select value={findExpenseCategory(expenseCategories, editingItem.category)?.id || ''} onChange={e => setEditingItem({...editingItem, category: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="" className="bg-gray-900">{editingItem.purchaseLines ? PURCHASES_LABEL : UNCATEGORISED_LABEL}</option>{expenseCategories.map(c => <option key={c.id} value={c.id} className="bg-gray-900">{c.name}</option>)}</select></div>}
+                              {editingItem.type === 'debt' && <div className="md:col-span-2"><label className="text-xs text-white/50 block mb-1">تاريخ الاستحقاق {editingItem.installmentPlan ? '(الأقساط لها مواعيدها الخاصة)' : '(اختياري)'}</label><input type="date" style={{colorScheme: 'dark'}} value={editingItem.dueDate || ''} onChange={e => setEditingItem({...editingItem, dueDate: e.target.value})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right font-num" /></div>}
+                          </div>
+                          {(editingItem.type === 'sale' || editingItem.type === 'debt') && !editingItem.saleLines?.length && (<div><label className="text-xs text-white/50 block mb-1">المنتج (يخصم من المخزون)</label><select value={editingItem.itemId || ''} onChange={e => setEditingItem({...editingItem, itemId: e.target.value || undefined})} className="w-full bg-black/20 border border-white/10 rounded-xl p-3 text-white text-right"><option value="" className="bg-gray-900">-- بدون منتج --</option>{inventory.map(i => <option key={i.id} value={i.id} className="bg-gray-900">{i.name} ({i.quantity})</option>)}</select></div>)}
+                          {(['saleLines', 'purchaseLines'] as const).map(kind => (editingItem[kind]?.length ? (
+                              <div key={kind} className="space-y-2">
+                                  <label className="text-xs text-white/50 block">{kind === 'saleLines' ? 'المنتجات المباعة' : 'المنتجات المستلمة'}</label>
+                                  {editingItem[kind]!.map((l, idx) => (
+                                      <div key={idx} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-white/5 text-sm">
+                                          <span className="text-white">{l.name}</span>
+                                          <input type="number" min={0} value={l.quantity} onChange={e => handleEditLineQuantity(kind, idx, Math.max(parseFloat(e.target.value) || 0, 0))} className="w-20 bg-black/20 border border-white/10 rounded-lg p-2 text-white text-center font-num" />
+                                      </div>
+                                  ))}
+                              </div>
+                          ) : null))}
+                          {editingItem.importBatchId && <p className="text-xs text-white/40">عملية مستوردة: لا تؤثر على كميات المخزون.</p>}
+                          {(refundsBySale.get(editingItem.id) || []).length > 0 && (
+                              <div className="border border-rose-500/20 rounded-xl p-3 space-y-2">
+                                  <div className="text-xs text-rose-400 font-bold flex items-center gap-1"><RotateCcw size={12} /> سجل المرتجعات</div>
+                                  {refundsBySale.get(editingItem.id)!.map(r => (
+                                      <div key={r.id} className="flex justify-between text-sm">
+                                          <span className="text-white/60"><span className="font-num">{r.date}</span>{r.saleLines?.length ? ` — ${r.saleLines.map(l => `${l.name} ×${l.quantity}`).join('، ')}${r.restocked ? ' (أعيد للمخزون)' : ''}` : ''}</span>
+                                          <span className="font-num text-rose-400">-{formatCurrency(r.amount, r.currency)}</span>
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                          {editingItem.refundOf && <div className="text-xs text-white/40">استرجاع للعملية <span className="font-num text-white/70">{editingItem.refundOf}</span></div>}
+                          <div className="flex gap-3 mt-4"><button onClick={handleEditSave} className="flex-1 py-4 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl font-bold">حفظ التعديلات</button>{RECEIPT_TITLES[editingItem.type] && <button onClick={() => { const t = transactions.find(x => x.id === editingItem.id); setEditingItem(null); if (t) openInvoice(t); }} title="فاتورة / إيصال" className="px-5 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-xl transition-colors"><Printer size={20} /></button>}{can('deleteTransactions') && <button onClick={() => { initiateDelete(editingItem.id, getTransactionName(editingItem)); setEditingItem(null); }} className="px-5 bg-red-500/10 hover:bg-red-500 text-red-400 hover:text-white rounded-xl transition-colors"><Trash2 size={20} /></button>}</div>
+                      </div>
+                  </div>
+              </motion.div>
           )}
 
           {deleteModal.isOpen && ( /* Delete Modal */ 
@@ -1505,6 +5206,7 @@ const App: React.FC = () => {
       </AnimatePresence>
 
       {success && <div className="fixed bottom-8 left-1/2 -translate-x-1/2 bg-emerald-500/20 border border-emerald-500/50 text-emerald-400 px-6 py-3 rounded-full shadow-2xl z-[200] flex items-center gap-2 font-bold backdrop-blur-md"><CheckCircle2 size={20} /> تم التنفيذ بنجاح</div>}
+      {error && <div className="fixed bottom-8 left-1/2 -translate-x-1/2 bg-red-500/20 border border-red-500/50 text-red-300 px-6 py-3 rounded-full shadow-2xl z-[200] flex items-center gap-2 font-bold backdrop-blur-md"><XCircle size={20} /> {error}</div>}
     </div>
   );
 };